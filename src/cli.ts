@@ -1,59 +1,257 @@
-import { defineCommand, runMain } from "citty";
+import { defineCommand, runCommand, runMain } from "citty";
+import { readFile, writeFile } from "node:fs/promises";
+import { userInfo } from "node:os";
 import {
-  createFeedback,
-  createNote,
-  createPuzzle,
-  clearFeedback,
-  ID_PATTERN,
-  deleteNote,
-  listMemoryEntries,
-  renderPuzzleTree,
-  replaceNotes,
-  updateNote,
-  updatePuzzleStatus,
-  updatePuzzleBlocks,
-  parseMemoryFile,
+  ENTRY_TYPES,
+  EzerStore,
+  getPuzzleStates,
+  hasTags,
+  isPriority,
+  normalizeTags,
+  sortByWorkOrder,
+  DEFAULT_PRIORITY,
+  PRIORITIES,
+  type MemoryEntry,
+  type Priority,
+  type PuzzleStatus,
 } from "./lib/memory.ts";
-import { join } from "node:path";
-import { readFile } from "node:fs/promises";
+import { EzerError, getErrorMessage } from "./lib/errors.ts";
+import { printJson, toJsonEntry, toJsonError } from "./lib/json.ts";
+import { resolveStoreRoot } from "./lib/root.ts";
+import {
+  DEFAULT_PRIMING_TEMPLATE,
+  formatClaim,
+  formatNoteOpenTag,
+  formatTagSuffix,
+  getPrimingText,
+  renderState,
+} from "./lib/priming.ts";
+import {
+  DEFAULT_SETTINGS,
+  SETTING_DESCRIPTIONS,
+  SETTING_KEYS,
+  type SettingKey,
+} from "./lib/config.ts";
+import { diagnoseStore } from "./lib/doctor.ts";
+import { buildPuzzleGraph, GRAPH_FORMATS, isGraphFormat, renderGraph } from "./lib/graph.ts";
+import { getHistory, readEntryAtRevision } from "./lib/history.ts";
+import { describeChanges, type JournalOperation } from "./lib/journal.ts";
+import { serveMcp } from "./lib/mcp.ts";
+import { runTui } from "./lib/tui.ts";
+import { installMergeDriver, mergeMemoryFile } from "./lib/merge.ts";
+import { refsAbout, resolveRef, toRootPath } from "./lib/refs.ts";
+import { searchEntries, type SearchOptions } from "./lib/search.ts";
+import { getLastSession, getRepositoryInfo, renderSessionSummary } from "./lib/session.ts";
+import { syncStore } from "./lib/sync.ts";
+import {
+  EXPORT_FORMATS,
+  exportStore,
+  importEntries,
+  isExportFormat,
+  parseExport,
+} from "./lib/transfer.ts";
+
+/**
+ * Remove the global `--root <path>` / `--root=<path>` option from argv.
+ * citty only sees options declared by the command that runs, so global
+ * options with values have to be taken out before it parses the rest.
+ */
+function extractRootOption(argv: string[]): { root: string | undefined; rest: string[] } {
+  let root: string | undefined;
+  const rest: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--root") {
+      root = argv[++i];
+    } else if (arg.startsWith("--root=")) {
+      root = arg.slice("--root=".length);
+    } else {
+      rest.push(arg);
+    }
+  }
+  return { root, rest };
+}
+
+const { root: rootOption, rest: args } = extractRootOption(process.argv.slice(2));
 
-const MEMORY_DIR = join(".ezer", "memory");
+const resolvedRoot = await resolveStoreRoot({
+  cwd: process.cwd(),
+  root: rootOption,
+  env: process.env,
+});
+const store = new EzerStore({ root: resolvedRoot.root });
+
+// Settings are read up front because `output.format` decides how even errors
+// are printed. A broken config only blocks commands other than `ezer config`.
+let configError: unknown = null;
+const settings = await store.getSettings().catch((error: unknown) => {
+  configError = error;
+  return DEFAULT_SETTINGS;
+});
+
+// `--json` is global: it is honored before or after the subcommand name.
+const jsonOutput =
+  args.includes("--json") ||
+  (settings["output.format"] === "json" && !args.includes("--no-json"));
 
-async function renderState(): Promise<string> {
-  const entries = await listMemoryEntries();
+const jsonArgs = {
+  json: {
+    type: "boolean",
+    description: "Print machine-readable JSON output",
+  },
+} as const;
+
+const tagArgs = {
+  tag: {
+    type: "string",
+    description: "Tag (repeat or comma-separate for several)",
+  },
+} as const;
 
-  if (entries.length === 0) {
-    return "No memory entries yet.";
+/** Parse `--tag a,b` / `--tag a --tag b` into normalized tags. */
+function parseTagsOption(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  try {
+    return normalizeTags(values.flatMap((v) => String(v).split(",")));
+  } catch (error) {
+    fail(error);
   }
+}
 
-  const notes = entries.filter((e) => e.type === "note");
-  const puzzles = entries.filter((e) => e.type === "puzzle");
-  const openPuzzles = puzzles.filter((p) => p.status === "open");
+const refArgs = {
+  ref: {
+    type: "string",
+    description: "Code location: path, path:12-40 or path#symbol (repeat for several)",
+  },
+} as const;
 
-  const lines: string[] = [];
+/**
+ * Parse `--ref` values into refs relative to the store root. Paths are
+ * relative to the current directory, like git paths.
+ */
+function parseRefsOption(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  try {
+    return values
+      .map(String)
+      .filter((ref) => ref.trim().length > 0)
+      .map((ref) => resolveRef(store.root, process.cwd(), ref));
+  } catch (error) {
+    fail(error);
+  }
+}
 
-  if (openPuzzles.length > 0) {
-    lines.push("### Open Puzzles");
-    for (const puzzle of openPuzzles) {
-      const blocksInfo =
-        puzzle.blocks && puzzle.blocks.length > 0
-          ? ` (blocks ${puzzle.blocks.join(", ")})`
-          : "";
-      lines.push(`- ${puzzle.id}: ${puzzle.title}${blocksInfo}`);
-    }
+function toJsonOperation({ seq, at, op, changes }: JournalOperation) {
+  return { seq, at, op, summary: describeChanges(changes) };
+}
+
+function formatOperation({ seq, at, op, changes }: JournalOperation): string {
+  return `#${seq} ${at} ${op} ${describeChanges(changes)}`;
+}
+
+/** Resolve an ID option, which may be abbreviated, to a full ID. */
+async function resolveIdOption(value: unknown, flag = "--id"): Promise<string> {
+  if (typeof value !== "string") {
+    invalidArgument(`${flag} is required`);
   }
+  try {
+    return await store.resolveId(value);
+  } catch (error) {
+    fail(error);
+  }
+}
 
-  if (notes.length > 0) {
-    if (lines.length > 0) lines.push("");
-    lines.push("### Notes");
-    for (const note of notes) {
-      lines.push(`<note id="${note.id}">`);
-      lines.push(note.content);
-      lines.push("</note>");
-    }
+/** Resolve a comma-separated list of possibly abbreviated IDs. */
+async function resolveIdsOption(value: unknown, flag = "--ids"): Promise<string[]> {
+  const ids = typeof value === "string" ? value.split(",").map((id) => id.trim()) : [];
+  if (ids.every((id) => id.length === 0)) {
+    invalidArgument(`${flag} is required`);
+  }
+  const resolved: string[] = [];
+  for (const id of ids.filter((id) => id.length > 0)) {
+    resolved.push(await resolveIdOption(id, flag));
   }
+  return resolved;
+}
 
-  return lines.join("\n");
+function parsePriorityOption(value: unknown): Priority | undefined {
+  if (value === undefined) return undefined;
+  if (!isPriority(value)) {
+    invalidArgument(`--priority must be one of ${PRIORITIES.join(", ")}`);
+  }
+  return value;
+}
+
+/** One-line summary used by `puzzle list` and `puzzle next`. */
+function formatPuzzleLine(puzzle: MemoryEntry, status: PuzzleStatus): string {
+  const blocksInfo =
+    puzzle.blocks && puzzle.blocks.length > 0 ? ` (blocks ${puzzle.blocks.join(", ")})` : "";
+  const priority = puzzle.priority ?? DEFAULT_PRIORITY;
+  const detail =
+    status.state === "ready"
+      ? [
+          priority,
+          ...(status.unblocks > 0 ? [`unblocks ${status.unblocks}`] : []),
+          `created ${puzzle.created}`,
+        ].join(", ")
+      : status.state === "blocked"
+        ? `${priority}, blocked by ${status.blockedBy.join(", ")}`
+        : status.state === "in-progress"
+          ? `${priority}, ${formatClaim(puzzle)}`
+          : `closed at ${puzzle.closedAt ?? puzzle.created}`;
+  return `${puzzle.id} [${status.state}]: ${puzzle.title}${blocksInfo}${formatTagSuffix(puzzle)} (${detail})`;
+}
+
+const globalArgs = {
+  ...jsonArgs,
+  root: {
+    type: "string",
+    description: "Directory containing .ezer (default: nearest ancestor with .ezer, or $EZER_ROOT)",
+  },
+} as const;
+
+function fail(error: unknown): never {
+  if (jsonOutput) {
+    console.error(JSON.stringify(toJsonError(error), null, 2));
+  } else {
+    console.error(`Error: ${getErrorMessage(error)}`);
+  }
+  process.exit(1);
+}
+
+function invalidArgument(message: string): never {
+  fail(new EzerError("INVALID_ARGUMENT", message));
+}
+
+/** Parse a duration option such as `--older-than 30d` (hours, days or weeks). */
+function parseDurationOption(value: unknown, name: string): number {
+  const match = String(value).match(/^(\d+)([hdw])$/);
+  if (!match) {
+    invalidArgument(`--${name} must be a duration such as 12h, 30d or 2w`);
+  }
+  const unit = { h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+  return Number(match[1]) * unit[match[2] as keyof typeof unit];
+}
+
+/**
+ * Parse a date option such as `--since 2026-01-31`.
+ * With `endOfDay`, a bare date covers the whole day (for inclusive upper bounds).
+ */
+function parseDateOption(value: unknown, name: string, endOfDay = false): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    invalidArgument(`--${name} must be a date such as 2026-01-31`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+async function printJsonEntry(store: EzerStore, entry: MemoryEntry): Promise<void> {
+  const states = getPuzzleStates(await store.listMemoryEntries("puzzle"));
+  printJson({ entry: toJsonEntry(entry, states) });
 }
 
 async function readStdin(): Promise<string> {
@@ -86,119 +284,97 @@ async function readStdin(): Promise<string> {
   });
 }
 
-async function getPrimingText(): Promise<string> {
-  const state = await renderState();
-
-  return `=== EZER ===
-I am ezer, a robot companion for AI agents. I help you maintain
-context and memory across sessions.
-
-## Current State
-
-${state}
-
-## Commands
-
-### Notes
-Record decisions, discoveries, or context for future sessions.
-
-  ezer note create --content "..."              # create note
-  ezer note update --id ez-xxxxx --content "..."  # update note
-  ezer note delete --id ez-xxxxx                # delete entry
-  ezer note replace --ids ez-a,ez-b --content "..."  # replace many with one
-  ezer note list                                # list all notes
-  cat <<'EOF' | ezer note create                # read note content from stdin
-  ... multi-line note content ...
-  EOF
-
-  Good notes: decisions made, patterns discovered, important file locations.
-
-### Puzzles
-Mark unknowns you can't resolve now. Don't get stuck - note it and move on.
-
-  ezer puzzle create --title "..."                  # create puzzle
-  ezer puzzle link --id ez-a --blocks ez-b         # make ez-a block ez-b
-  ezer puzzle unlink --id ez-a --blocks ez-b       # remove ez-a blocking ez-b
-  ezer puzzle close --id ez-xxxxx               # mark resolved
-  ezer puzzle reopen --id ez-xxxxx              # reopen puzzle
-  ezer puzzle delete --id ez-xxxxx              # delete puzzle
-  ezer puzzle list                              # list ready puzzles (default)
-  ezer puzzle list --ready                      # puzzles with deps resolved
-  ezer puzzle list --blocked                    # puzzles with open deps
-  ezer puzzle list --closed                     # closed puzzles (by closed time)
-  ezer puzzle tree --id ez-xxxxx                # show dependency tree
-  ezer puzzle describe --ids ez-a,ez-b          # show puzzle details in XML
-
-  Dependency Pattern Example:
-  Create a main task:       ezer puzzle create --title "Deploy to prod"
-  Create a blocker:         ezer puzzle create --title "Add tests"
-  Link blocker to main:     ezer puzzle link --id <test-id> --blocks <main-id>
-  Link multiple blockers:   ezer puzzle link --id <setup-id> --blocks <qa-id> && ezer puzzle link --id <setup-id> --blocks <deploy-id>
-  View dependency tree:     ezer puzzle tree --id <main-id>
-  Work on blockers first, then close them to unblock dependent tasks.
-
-### Memory Management
-When notes accumulate, consolidate related ones:
-
-  ezer note replace --ids ez-a,ez-b --content "combined insight"
-
-### Feedback
-Help improve ezer:
-
-  ezer feedback create --content "..."          # suggest improvements
-
-### Other
-  ezer status                                   # show state without instructions
-
-## How to Work
-
-### Work in Small, Verifiable Increments
-- Implement the smallest useful slice first, not the full solution
-- Test and commit before moving to the next piece
-- Run verifiable outputs (tests, typecheck, build) before every commit
-- Avoid premature abstractions - only write code when it's actually needed
-
-### Use Puzzles for Work
-- Puzzles represent work to be done - things you CAN'T solve now
-- Include acceptance criteria in the description so it's clear when done
-- Break large tasks into smaller puzzles with \`--blocks\` dependencies
-- Focus on one puzzle at a time; close from the bottom up (dependencies first)
-- When you hit an unknown or blocker, create a puzzle and move on
-
-### Use Notes for Knowledge
-- Notes capture what you LEARNED - decisions, discoveries, patterns
-- Document rationale (why, not just what)
-- Record gotchas, file locations, architectural insights
-- Update or consolidate notes to keep context focused
-
-### Reflect and Wrap Up
-- After completing a usable increment, reflect: add notes for learnings
-- When human says "reflect" or "wrap up", or session is ending:
-  - Create puzzles for any remaining/discovered work
-  - Add notes for important learnings from this session
-  - Close any puzzles you completed
-- Commit \`.ezer/\` changes so next session has context
-
-### Remember
-- Run \`ezer\` at session start to load context
-- Commit \`.ezer/\` to git - this is how memory persists across sessions/branches
-- You are the agent - ezer only stores and retrieves, you do the thinking
-`;
-}
-
 const main = defineCommand({
   meta: {
     name: "ezer",
     description: "A robot companion for AI agents",
   },
+  args: globalArgs,
   subCommands: {
+    init: defineCommand({
+      meta: {
+        name: "init",
+        description: "Create a new .ezer store",
+      },
+      args: {
+        ...jsonArgs,
+        prefix: {
+          type: "string",
+          description: "ID prefix (derived from the directory name by default)",
+        },
+      },
+      async run({ args }) {
+        try {
+          const created = await store.init(args["prefix"] as string | undefined);
+          if (jsonOutput) {
+            printJson({ root: store.root, created });
+            return;
+          }
+          if (created) {
+            console.log(`Initialized ezer store in ${store.ezerDir}`);
+          } else {
+            console.log(`ezer store already exists in ${store.ezerDir}`);
+          }
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    priming: defineCommand({
+      meta: {
+        name: "priming",
+        description: "Print the priming text (from .ezer/priming.md if present)",
+      },
+      args: {
+        ...jsonArgs,
+        "print-default": {
+          type: "boolean",
+          description: "Print the built-in template, to start a .ezer/priming.md from",
+        },
+      },
+      async run({ args }) {
+        try {
+          const text = args["print-default"]
+            ? DEFAULT_PRIMING_TEMPLATE
+            : await getPrimingText(store);
+          if (jsonOutput) {
+            printJson({ text });
+            return;
+          }
+          process.stdout.write(text.endsWith("\n") ? text : `${text}\n`);
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
     status: defineCommand({
       meta: {
         name: "status",
         description: "Show current state without instructions",
       },
-      async run() {
-        const state = await renderState();
+      args: {
+        ...jsonArgs,
+        ...tagArgs,
+      },
+      async run({ args }) {
+        const tags = parseTagsOption(args["tag"]);
+        if (jsonOutput) {
+          const allEntries = await store.listMemoryEntries();
+          // States are computed over all puzzles so untagged blockers still count
+          const states = getPuzzleStates(allEntries.filter((e) => e.type === "puzzle"));
+          const entries = allEntries.filter((e) => hasTags(e, tags));
+          printJson({
+            puzzles: entries
+              .filter(
+                (e) =>
+                  e.type === "puzzle" && (e.status !== "closed" || settings["status.showClosed"])
+              )
+              .map((entry) => toJsonEntry(entry, states)),
+            notes: entries.filter((e) => e.type === "note").map((entry) => toJsonEntry(entry)),
+          });
+          return;
+        }
+        const state = await renderState(store, { tags });
         console.log("=== EZER ===");
         console.log("");
         console.log(state);
@@ -216,23 +392,35 @@ const main = defineCommand({
             description: "Create a new note",
           },
           args: {
+            ...jsonArgs,
+            ...tagArgs,
+            ...refArgs,
             content: {
               type: "string",
               description: "Note content (or read from stdin)",
             },
           },
           async run({ args }) {
+            const tags = parseTagsOption(args["tag"]);
+            const refs = parseRefsOption(args["ref"]);
             const argContent = args["content"];
             const usingStdin = typeof argContent !== "string";
             const content = usingStdin ? await readStdin() : argContent;
             if (usingStdin && content.trim().length === 0) {
-              console.error(
-                "Error: Note content is required. Provide --content or pipe content to stdin (no stdin input received)."
+              invalidArgument(
+                "Note content is required. Provide --content or pipe content to stdin (no stdin input received)."
               );
-              process.exit(1);
             }
-            const entry = await createNote(content);
-            console.log(`Created ${entry.id}`);
+            try {
+              const entry = await store.createNote(content, { tags, refs });
+              if (jsonOutput) {
+                printJson({ entry: toJsonEntry(entry) });
+                return;
+              }
+              console.log(`Created ${entry.id}`);
+            } catch (error) {
+              fail(error);
+            }
           },
         }),
         update: defineCommand({
@@ -241,6 +429,7 @@ const main = defineCommand({
             description: "Update an existing note",
           },
           args: {
+            ...jsonArgs,
             id: {
               type: "string",
               description: "Note ID",
@@ -249,22 +438,28 @@ const main = defineCommand({
             content: {
               type: "string",
               description: "New content",
-              required: true,
+            },
+            ref: {
+              type: "string",
+              description: "Replace the note's refs (repeat for several; --ref '' removes them)",
             },
           },
           async run({ args }) {
-            const id = args["id"];
-            const content = args["content"];
-            if (typeof id !== "string" || typeof content !== "string") {
-              console.error("Error: --id and --content are required");
-              process.exit(1);
+            const id = await resolveIdOption(args["id"]);
+            const content = args["content"] as string | undefined;
+            if (content === undefined && args["ref"] === undefined) {
+              invalidArgument("--content or --ref is required");
             }
+            const refs = args["ref"] === undefined ? undefined : parseRefsOption(args["ref"]);
             try {
-              await updateNote(id, content);
+              const entry = await store.updateNote(id, content, { refs });
+              if (jsonOutput) {
+                printJson({ entry: toJsonEntry(entry) });
+                return;
+              }
               console.log(`Updated ${id}`);
             } catch (error) {
-              console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-              process.exit(1);
+              fail(error);
             }
           },
         }),
@@ -274,6 +469,7 @@ const main = defineCommand({
             description: "Delete a note",
           },
           args: {
+            ...jsonArgs,
             id: {
               type: "string",
               description: "Note ID",
@@ -281,17 +477,16 @@ const main = defineCommand({
             },
           },
           async run({ args }) {
-            const id = args["id"];
-            if (typeof id !== "string") {
-              console.error("Error: --id is required");
-              process.exit(1);
-            }
+            const id = await resolveIdOption(args["id"]);
             try {
-              await deleteNote(id);
+              await store.deleteNote(id);
+              if (jsonOutput) {
+                printJson({ deleted: [id] });
+                return;
+              }
               console.log(`Deleted ${id}`);
             } catch (error) {
-              console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-              process.exit(1);
+              fail(error);
             }
           },
         }),
@@ -301,6 +496,7 @@ const main = defineCommand({
             description: "Replace multiple notes with one",
           },
           args: {
+            ...jsonArgs,
             ids: {
               type: "string",
               description: "Comma-separated list of note IDs to replace",
@@ -313,19 +509,20 @@ const main = defineCommand({
             },
           },
           async run({ args }) {
-            const ids = args["ids"];
+            const idList = await resolveIdsOption(args["ids"]);
             const content = args["content"];
-            if (typeof ids !== "string" || typeof content !== "string") {
-              console.error("Error: --ids and --content are required");
-              process.exit(1);
+            if (typeof content !== "string") {
+              invalidArgument("--content is required");
             }
             try {
-              const idList = ids.split(",").map((id) => id.trim());
-              const entry = await replaceNotes(idList, content);
+              const entry = await store.replaceNotes(idList, content);
+              if (jsonOutput) {
+                printJson({ entry: toJsonEntry(entry), deleted: idList });
+                return;
+              }
               console.log(`Created ${entry.id} (replaced ${idList.join(", ")})`);
             } catch (error) {
-              console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-              process.exit(1);
+              fail(error);
             }
           },
         }),
@@ -334,14 +531,25 @@ const main = defineCommand({
             name: "list",
             description: "List all notes",
           },
-          async run() {
-            const entries = await listMemoryEntries("note");
+          args: {
+            ...jsonArgs,
+            ...tagArgs,
+          },
+          async run({ args }) {
+            const tags = parseTagsOption(args["tag"]);
+            const entries = (await store.listMemoryEntries("note")).filter((note) =>
+              hasTags(note, tags)
+            );
+            if (jsonOutput) {
+              printJson({ entries: entries.map((entry) => toJsonEntry(entry)) });
+              return;
+            }
             if (entries.length === 0) {
               console.log("No notes.");
               return;
             }
             for (const note of entries) {
-              console.log(`<note id="${note.id}">`);
+              console.log(formatNoteOpenTag(note));
               console.log(note.content);
               console.log("</note>");
             }
@@ -361,6 +569,7 @@ const main = defineCommand({
             description: "Create a new puzzle",
           },
           args: {
+            ...jsonArgs,
             title: {
               type: "string",
               description: "Puzzle title",
@@ -374,16 +583,35 @@ const main = defineCommand({
               type: "string",
               description: "ID of puzzle that this new puzzle blocks",
             },
+            priority: {
+              type: "string",
+              description: `Priority, ${PRIORITIES.join(", ")} (default: ${DEFAULT_PRIORITY})`,
+            },
+            ...tagArgs,
+            ...refArgs,
           },
           async run({ args }) {
             const title = args["title"];
             if (typeof title !== "string") {
-              console.error("Error: --title is required");
-              process.exit(1);
+              invalidArgument("--title is required");
             }
+            const refs = parseRefsOption(args["ref"]);
             const description = args["description"] as string | undefined;
-            const blocks = args["blocks"] as string | undefined;
-            const entry = await createPuzzle(title, description, blocks);
+            const blocks =
+              args["blocks"] === undefined
+                ? undefined
+                : await resolveIdOption(args["blocks"], "--blocks");
+            const tags = parseTagsOption(args["tag"]);
+            const priority = parsePriorityOption(args["priority"]);
+            const entry = await store.createPuzzle(title, description, blocks, {
+              tags,
+              refs,
+              priority,
+            });
+            if (jsonOutput) {
+              await printJsonEntry(store, entry);
+              return;
+            }
             console.log(`Created ${entry.id}`);
             if (blocks) {
               console.log(`  Blocks: ${blocks}`);
@@ -394,12 +622,133 @@ const main = defineCommand({
             );
           },
         }),
+        update: defineCommand({
+          meta: {
+            name: "update",
+            description: "Change a puzzle's title, description or refs",
+          },
+          args: {
+            ...jsonArgs,
+            id: {
+              type: "string",
+              description: "Puzzle ID",
+              required: true,
+            },
+            title: {
+              type: "string",
+              description: "New title",
+            },
+            description: {
+              type: "string",
+              description: "New description",
+            },
+            ref: {
+              type: "string",
+              description: "Replace the puzzle's refs (repeat for several; --ref '' removes them)",
+            },
+          },
+          async run({ args }) {
+            const id = await resolveIdOption(args["id"]);
+            const title = args["title"] as string | undefined;
+            const description = args["description"] as string | undefined;
+            if (title === undefined && description === undefined && args["ref"] === undefined) {
+              invalidArgument("Nothing to update: pass --title, --description or --ref");
+            }
+            const refs = args["ref"] === undefined ? undefined : parseRefsOption(args["ref"]);
+            try {
+              const entry = await store.updatePuzzle(id, { title, content: description, refs });
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
+              console.log(`Updated ${id}`);
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+        start: defineCommand({
+          meta: {
+            name: "start",
+            description: "Claim a puzzle so other agents skip it",
+          },
+          args: {
+            ...jsonArgs,
+            id: {
+              type: "string",
+              description: "Puzzle ID",
+              required: true,
+            },
+            by: {
+              type: "string",
+              description: "Who is working on it (default: $EZER_AGENT or the user name)",
+            },
+            lease: {
+              type: "string",
+              description: "How long the claim lasts, e.g. 2h (default: puzzle.leaseHours)",
+            },
+            force: {
+              type: "boolean",
+              description: "Take over a puzzle another agent has claimed",
+            },
+          },
+          async run({ args }) {
+            const id = await resolveIdOption(args["id"]);
+            const by =
+              (args["by"] as string | undefined) || process.env["EZER_AGENT"] || userInfo().username;
+            const leaseMs =
+              args["lease"] === undefined ? undefined : parseDurationOption(args["lease"], "lease");
+            try {
+              const entry = await store.startPuzzle(id, {
+                by,
+                leaseMs,
+                force: args["force"] === true,
+              });
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
+              console.log(`Started ${id} ${formatClaim(entry)}`);
+              console.log(`Hint: Run again to renew; release with: ezer puzzle stop --id ${id}`);
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+        stop: defineCommand({
+          meta: {
+            name: "stop",
+            description: "Release a claimed puzzle without closing it",
+          },
+          args: {
+            ...jsonArgs,
+            id: {
+              type: "string",
+              description: "Puzzle ID",
+              required: true,
+            },
+          },
+          async run({ args }) {
+            const id = await resolveIdOption(args["id"]);
+            try {
+              const entry = await store.releasePuzzle(id);
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
+              console.log(`Released ${id}`);
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
         close: defineCommand({
           meta: {
             name: "close",
             description: "Close a puzzle",
           },
           args: {
+            ...jsonArgs,
             id: {
               type: "string",
               description: "Puzzle ID",
@@ -407,14 +756,18 @@ const main = defineCommand({
             },
           },
           async run({ args }) {
-            const id = args["id"];
-            if (typeof id !== "string") {
-              console.error("Error: --id is required");
-              process.exit(1);
+            const id = await resolveIdOption(args["id"]);
+            try {
+              const entry = await store.updatePuzzleStatus(id, "closed");
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
+              console.log(`Closed ${id}`);
+              console.log(`Hint: Reopen with: ezer puzzle reopen --id ${id}`);
+            } catch (error) {
+              fail(error);
             }
-            await updatePuzzleStatus(id, "closed");
-            console.log(`Closed ${id}`);
-            console.log(`Hint: Reopen with: ezer puzzle reopen --id ${id}`);
           },
         }),
         reopen: defineCommand({
@@ -423,6 +776,7 @@ const main = defineCommand({
             description: "Reopen a puzzle",
           },
           args: {
+            ...jsonArgs,
             id: {
               type: "string",
               description: "Puzzle ID",
@@ -430,13 +784,17 @@ const main = defineCommand({
             },
           },
           async run({ args }) {
-            const id = args["id"];
-            if (typeof id !== "string") {
-              console.error("Error: --id is required");
-              process.exit(1);
+            const id = await resolveIdOption(args["id"]);
+            try {
+              const entry = await store.updatePuzzleStatus(id, "open");
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
+              console.log(`Reopened ${id}`);
+            } catch (error) {
+              fail(error);
             }
-            await updatePuzzleStatus(id, "open");
-            console.log(`Reopened ${id}`);
           },
         }),
         delete: defineCommand({
@@ -445,6 +803,7 @@ const main = defineCommand({
             description: "Delete a puzzle",
           },
           args: {
+            ...jsonArgs,
             id: {
               type: "string",
               description: "Puzzle ID",
@@ -452,17 +811,16 @@ const main = defineCommand({
             },
           },
           async run({ args }) {
-            const id = args["id"];
-            if (typeof id !== "string") {
-              console.error("Error: --id is required");
-              process.exit(1);
-            }
+            const id = await resolveIdOption(args["id"]);
             try {
-              await deleteNote(id);
+              await store.deleteNote(id);
+              if (jsonOutput) {
+                printJson({ deleted: [id] });
+                return;
+              }
               console.log(`Deleted ${id}`);
             } catch (error) {
-              console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-              process.exit(1);
+              fail(error);
             }
           },
         }),
@@ -472,6 +830,7 @@ const main = defineCommand({
             description: "List puzzles",
           },
           args: {
+            ...jsonArgs,
             ready: {
               type: "boolean",
               description: "Show only puzzles with all deps resolved",
@@ -480,113 +839,259 @@ const main = defineCommand({
               type: "boolean",
               description: "Show only puzzles with unresolved deps",
             },
+            "in-progress": {
+              type: "boolean",
+              description: "Show puzzles claimed with `puzzle start`",
+            },
             closed: {
               type: "boolean",
               description: "Show closed puzzles (sorted by closed time)",
             },
+            "include-archived": {
+              type: "boolean",
+              description: "With --closed, also show puzzles moved to the archive",
+            },
+            ...tagArgs,
           },
           async run({ args }) {
-            const entries = await listMemoryEntries("puzzle");
-            const openPuzzles = entries.filter((e) => e.status !== "closed");
-            const closedPuzzles = entries.filter((e) => e.status === "closed");
-            const closedWithTimestamp = closedPuzzles.map((puzzle) => ({
-              ...puzzle,
-              closedAt: puzzle.closedAt ?? puzzle.created,
-            }));
-
-            // Map of puzzle ID -> list of open puzzles that block it
-            const blockers = new Map<string, typeof openPuzzles>();
-            for (const puzzle of openPuzzles) {
-              if (!puzzle.blocks) continue;
-              for (const target of puzzle.blocks) {
-                const list = blockers.get(target) ?? [];
-                list.push(puzzle);
-                blockers.set(target, list);
-              }
-            }
-
-            const getBlockingPuzzles = (puzzleId: string): typeof openPuzzles =>
-              blockers.get(puzzleId) ?? [];
-
-            function getStatus(puzzle: (typeof entries)[number]): "ready" | "blocked" | "closed" {
-              if (puzzle.status === "closed") return "closed";
-              const blocking = getBlockingPuzzles(puzzle.id);
-              return blocking.length > 0 ? "blocked" : "ready";
-            }
+            const tags = parseTagsOption(args["tag"]);
+            const allPuzzles = await store.listMemoryEntries("puzzle", {
+              includeArchived: args["include-archived"] === true,
+            });
+            // States are computed over all puzzles so untagged blockers still count
+            const states = getPuzzleStates(allPuzzles);
+            const entries = allPuzzles.filter((puzzle) => hasTags(puzzle, tags));
+            const getStatus = (puzzle: MemoryEntry) => states.get(puzzle.id)!;
 
-            const readyPuzzles = openPuzzles.filter((puzzle) => getStatus(puzzle) === "ready");
-
-            const blockedPuzzles = openPuzzles.filter(
-              (puzzle) => getStatus(puzzle) === "blocked"
+            const closedWithTimestamp = entries
+              .filter((puzzle) => getStatus(puzzle).state === "closed")
+              .map((puzzle) => ({
+                ...puzzle,
+                closedAt: puzzle.closedAt ?? puzzle.created,
+              }));
+            const readyPuzzles = sortByWorkOrder(
+              entries.filter((puzzle) => getStatus(puzzle).state === "ready"),
+              states
+            );
+            const blockedPuzzles = entries.filter(
+              (puzzle) => getStatus(puzzle).state === "blocked"
             );
 
+            const filter = args["closed"]
+              ? "closed"
+              : args["in-progress"]
+                ? "in-progress"
+                : args["blocked"]
+                  ? "blocked"
+                  : args["ready"]
+                    ? "ready"
+                    : settings["puzzle.defaultFilter"];
             let toShow: typeof entries;
-            if (args["closed"]) {
+            if (filter === "closed") {
               toShow = [...closedWithTimestamp].sort(
                 (a, b) =>
                   new Date(b.closedAt!).getTime() - new Date(a.closedAt!).getTime()
               );
-            } else if (args["blocked"]) {
+            } else if (filter === "blocked") {
               toShow = blockedPuzzles;
-            } else if (args["ready"]) {
-              toShow = readyPuzzles;
+            } else if (filter === "in-progress") {
+              toShow = entries.filter((puzzle) => getStatus(puzzle).state === "in-progress");
             } else {
               toShow = readyPuzzles;
             }
 
+            if (jsonOutput) {
+              printJson({
+                filter,
+                entries: toShow.map((puzzle) => toJsonEntry(puzzle, states)),
+              });
+              return;
+            }
+
             if (toShow.length === 0) {
               console.log("No puzzles.");
               return;
             }
 
             for (const puzzle of toShow) {
-              const blocksInfo =
-                puzzle.blocks && puzzle.blocks.length > 0
-                  ? ` (blocks ${puzzle.blocks.join(", ")})`
-                  : "";
-              const status = getStatus(puzzle);
-              const detail =
-                status === "ready"
-                  ? `created ${puzzle.created}`
-                  : status === "blocked"
-                    ? `blocked by ${getBlockingPuzzles(puzzle.id)
-                        .map((p) => p.id)
-                        .join(", ")}`
-                    : `closed at ${puzzle.closedAt!}`;
-              console.log(`${puzzle.id} [${status}]: ${puzzle.title}${blocksInfo} (${detail})`);
+              console.log(formatPuzzleLine(puzzle, getStatus(puzzle)));
             }
             console.log(
               'Use "ezer puzzle describe --ids <id1,id2>" to view puzzle details.'
             );
           },
         }),
+        next: defineCommand({
+          meta: {
+            name: "next",
+            description: "Show the single best ready puzzle to work on",
+          },
+          args: {
+            ...jsonArgs,
+            ...tagArgs,
+          },
+          async run({ args }) {
+            const tags = parseTagsOption(args["tag"]);
+            const puzzles = await store.listMemoryEntries("puzzle");
+            const states = getPuzzleStates(puzzles);
+            const [next] = sortByWorkOrder(
+              puzzles.filter(
+                (puzzle) => states.get(puzzle.id)?.state === "ready" && hasTags(puzzle, tags)
+              ),
+              states
+            );
+            if (jsonOutput) {
+              printJson({ entry: next ? toJsonEntry(next, states) : null });
+              return;
+            }
+            if (!next) {
+              console.log("No ready puzzles.");
+              return;
+            }
+            console.log(formatPuzzleLine(next, states.get(next.id)!));
+            if (next.content) {
+              console.log("");
+              console.log(next.content);
+            }
+            console.log("");
+            console.log(`Hint: Claim it: ezer puzzle start --id ${next.id} --by <agent>`);
+            console.log(`Hint: Close when done: ezer puzzle close --id ${next.id}`);
+          },
+        }),
+        prioritize: defineCommand({
+          meta: {
+            name: "prioritize",
+            description: "Set a puzzle's priority",
+          },
+          args: {
+            ...jsonArgs,
+            id: {
+              type: "string",
+              description: "Puzzle ID",
+              required: true,
+            },
+            priority: {
+              type: "string",
+              description: `Priority, ${PRIORITIES.join(", ")} (p0 is most urgent)`,
+              required: true,
+            },
+          },
+          async run({ args }) {
+            const id = await resolveIdOption(args["id"]);
+            const priority = parsePriorityOption(args["priority"]);
+            if (!priority) {
+              invalidArgument("--priority is required");
+            }
+            try {
+              const entry = await store.updatePuzzlePriority(id, priority);
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
+              console.log(`Set ${id} to ${priority}`);
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+        graph: defineCommand({
+          meta: {
+            name: "graph",
+            description: "Export the blocks graph as Mermaid or Graphviz DOT",
+          },
+          args: {
+            ...jsonArgs,
+            id: {
+              type: "string",
+              description: "Only puzzles connected to this one",
+            },
+            format: {
+              type: "string",
+              description: `Output format: ${GRAPH_FORMATS.join(", ")} (default: mermaid)`,
+            },
+            "hide-closed": {
+              type: "boolean",
+              description: "Leave out closed puzzles",
+            },
+            depth: {
+              type: "string",
+              description: "Only puzzles up to N links from --id (or from top-level puzzles)",
+            },
+          },
+          async run({ args }) {
+            const format = args["format"] ?? "mermaid";
+            if (!isGraphFormat(format)) {
+              invalidArgument(`--format must be one of ${GRAPH_FORMATS.join(", ")}`);
+            }
+            const depth = args["depth"] === undefined ? undefined : Number(args["depth"]);
+            if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+              invalidArgument("--depth must be a non-negative integer");
+            }
+            const rootId =
+              args["id"] === undefined ? undefined : await resolveIdOption(args["id"]);
+            try {
+              const graph = buildPuzzleGraph(await store.listMemoryEntries("puzzle"), {
+                rootId,
+                hideClosed: args["hide-closed"] === true,
+                depth,
+              });
+              const text = renderGraph(graph, format);
+              if (jsonOutput) {
+                printJson({ format, root: rootId ?? null, edges: graph.edges, text });
+                return;
+              }
+              console.log(text);
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
         tree: defineCommand({
           meta: {
             name: "tree",
             description: "Show puzzle dependency tree",
           },
           args: {
+            ...jsonArgs,
             id: {
               type: "string",
               description: "Puzzle ID",
               required: true,
             },
+            closed: {
+              type: "boolean",
+              default: true,
+              description: "Show closed puzzles (--no-closed hides them)",
+            },
           },
           async run({ args }) {
-            const id = args["id"];
-            if (typeof id !== "string") {
-              console.error("Error: --id is required");
-              process.exit(1);
-            }
+            const id = await resolveIdOption(args["id"]);
+            const treeOptions = { includeClosed: args["closed"] !== false };
             try {
-              const tree = await renderPuzzleTree(id);
+              if (jsonOutput) {
+                const puzzles = await store.listMemoryEntries("puzzle", { includeArchived: true });
+                const map = new Map(puzzles.map((p) => [p.id, p]));
+                if (!map.has(id)) {
+                  throw new EzerError("NOT_FOUND", `Puzzle ${id} not found`);
+                }
+                const treeIds = await store.getPuzzleTree(id, treeOptions);
+                const states = getPuzzleStates(puzzles);
+                printJson({
+                  root: id,
+                  entries: treeIds
+                    .map((treeId) => map.get(treeId))
+                    .filter((puzzle): puzzle is MemoryEntry => puzzle !== undefined)
+                    .map((puzzle) => toJsonEntry(puzzle, states)),
+                });
+                return;
+              }
+              const tree = await store.renderPuzzleTree(id, treeOptions);
               console.log(tree);
               console.log(
                 '\nUse "ezer puzzle describe --ids <id>" to view puzzle details.'
               );
             } catch (error) {
-              console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-              process.exit(1);
+              fail(error);
             }
           },
         }),
@@ -596,6 +1101,7 @@ const main = defineCommand({
             description: "Show puzzle descriptions",
           },
           args: {
+            ...jsonArgs,
             ids: {
               type: "string",
               description: "Comma-separated puzzle IDs",
@@ -603,38 +1109,26 @@ const main = defineCommand({
             },
           },
           async run({ args }) {
-            const idsArg = args["ids"];
-            if (typeof idsArg !== "string") {
-              console.error("Error: --ids is required");
-              process.exit(1);
-            }
-            const ids = idsArg
-              .split(",")
-              .map((id) => id.trim())
-              .filter((id) => id.length > 0);
-            if (ids.length === 0) {
-              console.error("Error: --ids is required");
-              process.exit(1);
-            }
+            const ids = await resolveIdsOption(args["ids"]);
 
-            const invalidIds = ids.filter((id) => !ID_PATTERN.test(id));
-            if (invalidIds.length > 0) {
-              console.error(`Error: invalid puzzle id(s): ${invalidIds.join(", ")}`);
-              process.exit(1);
-            }
-
-            const puzzles = await listMemoryEntries("puzzle");
+            const puzzles = await store.listMemoryEntries("puzzle", { includeArchived: true });
             const map = new Map(puzzles.map((p) => [p.id, p]));
 
             const missingIds = ids.filter((id) => !map.has(id));
             if (missingIds.length > 0) {
-              console.error(`Error: puzzle(s) not found: ${missingIds.join(", ")}`);
-              process.exit(1);
+              fail(new EzerError("NOT_FOUND", `puzzle(s) not found: ${missingIds.join(", ")}`));
+            }
+
+            if (jsonOutput) {
+              const states = getPuzzleStates(puzzles);
+              printJson({ entries: ids.map((id) => toJsonEntry(map.get(id)!, states)) });
+              return;
             }
 
             for (const [index, id] of ids.entries()) {
               const puzzle = map.get(id)!;
-              console.log(`<puzzle id="${puzzle.id}" title="${puzzle.title ?? ""}">`);
+              const refs = puzzle.refs?.length ? ` refs="${puzzle.refs.join(",")}"` : "";
+              console.log(`<puzzle id="${puzzle.id}" title="${puzzle.title ?? ""}"${refs}>`);
               console.log(puzzle.content ?? "");
               console.log("</puzzle>");
               if (index < ids.length - 1) {
@@ -649,6 +1143,7 @@ const main = defineCommand({
             description: "Link a puzzle to block another puzzle",
           },
           args: {
+            ...jsonArgs,
             id: {
               type: "string",
               description: "Puzzle ID to update",
@@ -661,22 +1156,21 @@ const main = defineCommand({
             },
           },
           async run({ args }) {
-            const id = args["id"];
-            const blocks = args["blocks"];
-            if (typeof id !== "string" || typeof blocks !== "string") {
-              console.error("Error: --id and --blocks are required");
-              process.exit(1);
-            }
+            const id = await resolveIdOption(args["id"]);
+            const blocks = await resolveIdOption(args["blocks"], "--blocks");
             try {
-              await updatePuzzleBlocks(id, blocks, "append");
+              const entry = await store.updatePuzzleBlocks(id, blocks, "append");
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
               console.log(`Linked ${id} to block ${blocks}`);
               console.log(
                 `Hint: Undo with: ezer puzzle unlink --id ${id} --blocks ${blocks}`
               );
               console.log(`Hint: View tree: ezer puzzle tree --id ${blocks}`);
             } catch (error) {
-              console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-              process.exit(1);
+              fail(error);
             }
           },
         }),
@@ -686,6 +1180,7 @@ const main = defineCommand({
             description: "Remove block dependency from a puzzle",
           },
           args: {
+            ...jsonArgs,
             id: {
               type: "string",
               description: "Puzzle ID to update",
@@ -698,39 +1193,958 @@ const main = defineCommand({
             },
           },
           async run({ args }) {
-            const id = args["id"];
-            const blocks = args["blocks"];
-            if (typeof id !== "string" || typeof blocks !== "string") {
-              console.error("Error: --id and --blocks are required");
-              process.exit(1);
-            }
+            const id = await resolveIdOption(args["id"]);
+            const blocks = await resolveIdOption(args["blocks"], "--blocks");
             try {
               // First verify the current blocks value matches
-              const filePath = join(MEMORY_DIR, `${id}.md`);
-              const content = await readFile(filePath, "utf-8");
-              const entry = parseMemoryFile(id, content);
-              
+              const entry = await store.readMemoryEntry(id);
+
               if (entry.type !== "puzzle") {
-                throw new Error(`${id} is not a puzzle`);
+                throw new EzerError("WRONG_TYPE", `${id} is not a puzzle`);
               }
-              
+
               const currentBlocks = entry.blocks ?? [];
               if (!currentBlocks.includes(blocks)) {
                 const currentText =
                   currentBlocks.length > 0
                     ? ` (currently blocks ${currentBlocks.join(", ")})`
                     : " (no block dependency set)";
-                throw new Error(`${id} does not block ${blocks}${currentText}`);
+                throw new EzerError("NOT_LINKED", `${id} does not block ${blocks}${currentText}`);
+              }
+
+              const updated = await store.updatePuzzleBlocks(id, blocks, "remove");
+              if (jsonOutput) {
+                await printJsonEntry(store, updated);
+                return;
               }
-              
-              await updatePuzzleBlocks(id, blocks, "remove");
               console.log(`Unlinked ${id} from ${blocks}`);
             } catch (error) {
-              console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-              process.exit(1);
+              fail(error);
+            }
+          },
+        }),
+      },
+    }),
+    tag: defineCommand({
+      meta: {
+        name: "tag",
+        description: "Add or remove tags on an entry",
+      },
+      subCommands: {
+        add: defineCommand({
+          meta: {
+            name: "add",
+            description: "Add tags to an entry",
+          },
+          args: {
+            ...jsonArgs,
+            id: {
+              type: "string",
+              description: "Entry ID",
+              required: true,
+            },
+            tag: {
+              ...tagArgs.tag,
+              required: true,
+            },
+          },
+          async run({ args }) {
+            const id = await resolveIdOption(args["id"]);
+            const tags = parseTagsOption(args["tag"]);
+            if (tags.length === 0) {
+              invalidArgument("--tag is required");
+            }
+            try {
+              const entry = await store.addTags(id, tags);
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
+              console.log(`Tagged ${id}:${formatTagSuffix(entry)}`);
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+        remove: defineCommand({
+          meta: {
+            name: "remove",
+            description: "Remove tags from an entry",
+          },
+          args: {
+            ...jsonArgs,
+            id: {
+              type: "string",
+              description: "Entry ID",
+              required: true,
+            },
+            tag: {
+              ...tagArgs.tag,
+              required: true,
+            },
+          },
+          async run({ args }) {
+            const id = await resolveIdOption(args["id"]);
+            const tags = parseTagsOption(args["tag"]);
+            if (tags.length === 0) {
+              invalidArgument("--tag is required");
+            }
+            try {
+              const entry = await store.removeTags(id, tags);
+              if (jsonOutput) {
+                await printJsonEntry(store, entry);
+                return;
+              }
+              const remaining = formatTagSuffix(entry);
+              console.log(`Untagged ${id}${remaining ? `, now:${remaining}` : ""}`);
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+      },
+    }),
+    tags: defineCommand({
+      meta: {
+        name: "tags",
+        description: "List tags with entry counts",
+      },
+      args: jsonArgs,
+      async run() {
+        const tags = await store.listTags();
+        if (jsonOutput) {
+          printJson({ tags });
+          return;
+        }
+        if (tags.length === 0) {
+          console.log("No tags.");
+          return;
+        }
+        for (const { tag, count } of tags) {
+          console.log(`#${tag} (${count})`);
+        }
+      },
+    }),
+    search: defineCommand({
+      meta: {
+        name: "search",
+        description: "Search notes, puzzles (including closed) and feedback",
+      },
+      args: {
+        ...jsonArgs,
+        query: {
+          type: "positional",
+          description: "Search terms",
+          required: true,
+        },
+        type: {
+          type: "string",
+          description: "Only entries of this type: note, puzzle, feedback or session",
+        },
+        status: {
+          type: "string",
+          description: "Only puzzles that are open, closed, ready or blocked",
+        },
+        since: {
+          type: "string",
+          description: "Only entries created on or after this date",
+        },
+        until: {
+          type: "string",
+          description: "Only entries created on or before this date",
+        },
+        limit: {
+          type: "string",
+          description: "Maximum number of results (default: 20)",
+        },
+        ...tagArgs,
+      },
+      async run({ args }) {
+        const query = args._.join(" ");
+        const type = args["type"] as string | undefined;
+        if (type !== undefined && !(ENTRY_TYPES as readonly string[]).includes(type)) {
+          invalidArgument("--type must be note, puzzle, feedback or session");
+        }
+        const status = args["status"] as string | undefined;
+        const statuses = ["open", "closed", "ready", "blocked", "in-progress"];
+        if (status !== undefined && !statuses.includes(status)) {
+          invalidArgument("--status must be open, closed, ready, blocked or in-progress");
+        }
+        const limit = Number(args["limit"] ?? 20);
+        if (!Number.isInteger(limit) || limit < 1) {
+          invalidArgument("--limit must be a positive integer");
+        }
+
+        const entries = await store.listMemoryEntries(undefined, { includeArchived: true });
+        const results = searchEntries(entries, query, {
+          type: type as SearchOptions["type"],
+          status: status as SearchOptions["status"],
+          since: parseDateOption(args["since"], "since"),
+          until: parseDateOption(args["until"], "until", true),
+          tags: parseTagsOption(args["tag"]),
+          limit,
+        });
+
+        const states = getPuzzleStates(
+          await store.listMemoryEntries("puzzle", { includeArchived: true })
+        );
+        if (jsonOutput) {
+          printJson({
+            query,
+            results: results.map(({ entry, score, snippet }) => ({
+              entry: toJsonEntry(entry, states),
+              score,
+              snippet,
+            })),
+          });
+          return;
+        }
+
+        if (results.length === 0) {
+          console.log("No matches.");
+          return;
+        }
+        for (const { entry, snippet } of results) {
+          const state = states.get(entry.id)?.state;
+          const label = state ? `${entry.type}, ${state}` : entry.type;
+          const title = entry.title ? ` ${entry.title}` : "";
+          console.log(`${entry.id} [${label}]:${title}${formatTagSuffix(entry)}`);
+          if (snippet.length > 0) {
+            console.log(`  ${snippet}`);
+          }
+        }
+      },
+    }),
+    about: defineCommand({
+      meta: {
+        name: "about",
+        description: "List notes and puzzles that reference a file or directory",
+      },
+      args: {
+        ...jsonArgs,
+        path: { type: "positional", description: "File or directory", required: true },
+      },
+      async run({ args }) {
+        try {
+          const path = toRootPath(store.root, process.cwd(), String(args._[0]));
+          const entries = (await store.listMemoryEntries(undefined, { includeArchived: true }))
+            .map((entry) => ({ entry, refs: refsAbout(entry, path) }))
+            .filter(({ refs }) => refs.length > 0);
+          const states = getPuzzleStates(
+            await store.listMemoryEntries("puzzle", { includeArchived: true })
+          );
+          if (jsonOutput) {
+            printJson({
+              path,
+              entries: entries.map(({ entry }) => toJsonEntry(entry, states)),
+            });
+            return;
+          }
+          if (entries.length === 0) {
+            console.log(`No entries reference ${path || "."}.`);
+            return;
+          }
+          for (const { entry, refs } of entries) {
+            const state = states.get(entry.id)?.state;
+            const label = state ? `${entry.type}, ${state}` : entry.type;
+            const title = entry.title ?? entry.content.split("\n")[0] ?? "";
+            console.log(`${entry.id} [${label}]: ${title}${formatTagSuffix(entry)}`);
+            for (const ref of refs) {
+              console.log(`  ${ref}`);
+            }
+          }
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    mcp: defineCommand({
+      meta: {
+        name: "mcp",
+        description: "Run a Model Context Protocol server on stdio",
+      },
+      async run() {
+        await serveMcp(store);
+      },
+    }),
+    tui: defineCommand({
+      meta: {
+        name: "tui",
+        description: "Browse and edit notes and puzzles in a full-screen terminal UI",
+      },
+      async run() {
+        try {
+          await runTui(store);
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    doctor: defineCommand({
+      meta: {
+        name: "doctor",
+        description: "Check memory files for problems and optionally repair them",
+      },
+      args: {
+        ...jsonArgs,
+        fix: {
+          type: "boolean",
+          description: "Apply safe repairs",
+        },
+        refs: {
+          type: "boolean",
+          description: "Also check that files referenced with --ref still exist",
+        },
+      },
+      async run({ args }) {
+        const issues = await diagnoseStore(store, {
+          fix: args["fix"] === true,
+          refs: args["refs"] === true,
+        });
+        const remaining = issues.filter((issue) => !issue.fixed);
+        if (remaining.length > 0) {
+          process.exitCode = 1;
+        }
+        if (jsonOutput) {
+          printJson({ issues });
+          return;
+        }
+        if (issues.length === 0) {
+          console.log("No problems found.");
+          return;
+        }
+        for (const issue of issues) {
+          const suffix = issue.fixed ? " (fixed)" : issue.fixable ? " (fixable)" : "";
+          console.log(`${issue.file}: ${issue.message}${suffix}`);
+        }
+        const fixable = remaining.filter((issue) => issue.fixable).length;
+        const fixed = issues.length - remaining.length;
+        const plural = issues.length === 1 ? "problem" : "problems";
+        console.log("");
+        if (fixed > 0) {
+          console.log(`Fixed ${fixed} of ${issues.length} ${plural}.`);
+        } else {
+          console.log(`Found ${issues.length} ${plural}, ${fixable} fixable.`);
+        }
+        if (fixable > 0) {
+          console.log(`Run "ezer doctor --fix" to apply the safe repairs.`);
+        }
+      },
+    }),
+    config: defineCommand({
+      meta: {
+        name: "config",
+        description: "Read and change settings in .ezer/config.yaml",
+      },
+      subCommands: {
+        get: defineCommand({
+          meta: {
+            name: "get",
+            description: "Print the effective value of a setting",
+          },
+          args: {
+            ...jsonArgs,
+            key: { type: "positional", description: "Setting key", required: true },
+          },
+          async run({ args }) {
+            const key = String(args._[0]);
+            try {
+              if (!(SETTING_KEYS as string[]).includes(key)) {
+                throw new EzerError(
+                  "INVALID_CONFIG",
+                  `Unknown setting "${key}". Known settings: ${SETTING_KEYS.join(", ")}`
+                );
+              }
+              const { settings, sources } = await store.loadSettings();
+              const value = settings[key as SettingKey];
+              if (jsonOutput) {
+                printJson({ key, value: value ?? null, source: sources[key as SettingKey] });
+                return;
+              }
+              console.log(value === undefined ? "" : String(value));
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+        set: defineCommand({
+          meta: {
+            name: "set",
+            description: "Change a setting in the project (or --user) config",
+          },
+          args: {
+            ...jsonArgs,
+            key: { type: "positional", description: "Setting key", required: true },
+            value: { type: "positional", description: "New value", required: true },
+            user: {
+              type: "boolean",
+              description: "Write to the user config (~/.config/ezer/config.yaml) instead",
+            },
+          },
+          async run({ args }) {
+            const [key, value] = args._.map(String);
+            const scope = args["user"] ? "user" : "project";
+            try {
+              await store.setSetting(key!, value, scope);
+              const { settings } = await store.loadSettings();
+              if (jsonOutput) {
+                printJson({ key, value: settings[key as SettingKey] ?? null, scope });
+                return;
+              }
+              console.log(`Set ${key} to ${String(settings[key as SettingKey])} (${scope})`);
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+        list: defineCommand({
+          meta: {
+            name: "list",
+            description: "Show every setting with its value and where it comes from",
+          },
+          args: jsonArgs,
+          async run() {
+            try {
+              const { settings, sources } = await store.loadSettings();
+              if (jsonOutput) {
+                printJson({
+                  settings: SETTING_KEYS.map((key) => ({
+                    key,
+                    value: settings[key] ?? null,
+                    source: sources[key],
+                    description: SETTING_DESCRIPTIONS[key],
+                  })),
+                });
+                return;
+              }
+              for (const key of SETTING_KEYS) {
+                const value = settings[key] === undefined ? "(unset)" : String(settings[key]);
+                console.log(`${key} = ${value} (${sources[key]})`);
+                console.log(`  ${SETTING_DESCRIPTIONS[key]}`);
+              }
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+      },
+    }),
+    archive: defineCommand({
+      meta: {
+        name: "archive",
+        description: "Move old closed puzzles out of .ezer/memory into .ezer/archive",
+      },
+      args: {
+        ...jsonArgs,
+        "older-than": {
+          type: "string",
+          description: "Only puzzles closed longer ago than this (default: 30d)",
+        },
+        "dry-run": {
+          type: "boolean",
+          description: "Only show what would be archived",
+        },
+      },
+      async run({ args }) {
+        const age = parseDurationOption(args["older-than"] ?? "30d", "older-than");
+        const dryRun = args["dry-run"] === true;
+        const archived = await store.archiveClosedPuzzles(new Date(Date.now() - age), {
+          dryRun,
+        });
+        if (jsonOutput) {
+          printJson({ dryRun, archived: archived.map((puzzle) => puzzle.id) });
+          return;
+        }
+        if (archived.length === 0) {
+          console.log("Nothing to archive.");
+          return;
+        }
+        for (const puzzle of archived) {
+          const closedAt = puzzle.closedAt ?? puzzle.created;
+          console.log(`${puzzle.id}: ${puzzle.title} (closed at ${closedAt})`);
+        }
+        const plural = archived.length === 1 ? "puzzle" : "puzzles";
+        console.log(
+          dryRun
+            ? `Would archive ${archived.length} ${plural}.`
+            : `Archived ${archived.length} ${plural} to ${store.archiveDir}`
+        );
+      },
+    }),
+    export: defineCommand({
+      meta: {
+        name: "export",
+        description: "Dump every entry, with computed puzzle state",
+      },
+      args: {
+        format: {
+          type: "string",
+          description: `Output format: ${EXPORT_FORMATS.join(", ")} (default: json)`,
+        },
+      },
+      async run({ args }) {
+        const format = args["format"] ?? "json";
+        if (!isExportFormat(format)) {
+          invalidArgument(`--format must be one of ${EXPORT_FORMATS.join(", ")}`);
+        }
+        try {
+          process.stdout.write(await exportStore(store, format));
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    import: defineCommand({
+      meta: {
+        name: "import",
+        description: "Load entries from an ezer export",
+      },
+      args: {
+        ...jsonArgs,
+        file: {
+          type: "positional",
+          description: "Export file (json, jsonl or markdown); read from stdin if omitted",
+          required: false,
+        },
+        remap: {
+          type: "boolean",
+          description: "Give entries from other prefixes new IDs with the local prefix",
+        },
+        duplicates: {
+          type: "string",
+          description: "skip (default) or merge tags and blocks into existing entries",
+        },
+        "dry-run": {
+          type: "boolean",
+          description: "Only show what would be imported",
+        },
+      },
+      async run({ args }) {
+        const file = args._[0] === undefined ? undefined : String(args._[0]);
+        const duplicates = args["duplicates"] ?? "skip";
+        if (duplicates !== "skip" && duplicates !== "merge") {
+          invalidArgument("--duplicates must be skip or merge");
+        }
+        const dryRun = args["dry-run"] === true;
+        try {
+          let text: string;
+          try {
+            text = file === undefined ? await readStdin() : await readFile(file, "utf-8");
+          } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+            throw new EzerError("NOT_FOUND", `File not found: ${file}`);
+          }
+          const result = await importEntries(store, parseExport(text, file ?? "stdin"), {
+            remap: args["remap"] === true,
+            duplicates,
+            dryRun,
+          });
+          if (jsonOutput) {
+            printJson({
+              dryRun,
+              created: result.created.map(({ entry, from }) => ({ id: entry.id, from })),
+              merged: result.merged.map((entry) => entry.id),
+              skipped: result.skipped,
+            });
+            return;
+          }
+          for (const { entry, from } of result.created) {
+            const renamed = from === entry.id ? "" : ` (was ${from})`;
+            const label = entry.type === "puzzle" ? entry.title : entry.type;
+            console.log(`+ ${entry.id}${renamed}: ${label}`);
+          }
+          for (const entry of result.merged) {
+            console.log(`~ ${entry.id}: merged tags and blocks`);
+          }
+          const count = (n: number) => `${n} ${n === 1 ? "entry" : "entries"}`;
+          const summary = [
+            `${dryRun ? "Would create" : "Created"} ${count(result.created.length)}`,
+            `${dryRun ? "merge" : "merged"} ${result.merged.length}`,
+            `skipped ${result.skipped.length} ${result.skipped.length === 1 ? "duplicate" : "duplicates"}`,
+          ];
+          console.log(`${summary.join(", ")}.`);
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    log: defineCommand({
+      meta: {
+        name: "log",
+        description: "Show the git history of memory entries as events",
+      },
+      args: {
+        ...jsonArgs,
+        id: {
+          type: "string",
+          description: "Only this entry",
+        },
+        limit: {
+          type: "string",
+          description: "Only the most recent N commits",
+        },
+      },
+      async run({ args }) {
+        const limit = args["limit"] === undefined ? undefined : Number(args["limit"]);
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+          invalidArgument("--limit must be a positive integer");
+        }
+        try {
+          const events = await getHistory(store, {
+            id: args["id"] === undefined ? undefined : await resolveIdOption(args["id"]),
+            limit,
+          });
+          if (jsonOutput) {
+            printJson({
+              events: events.map(({ entry, ...event }) => ({ ...event, entry: toJsonEntry(entry) })),
+            });
+            return;
+          }
+          if (events.length === 0) {
+            console.log("No history yet. Commit .ezer/ (or run ezer sync) to record it.");
+            return;
+          }
+          for (const { id, kind, detail, commit, date, entry } of events) {
+            const label = entry.title ?? entry.content.split("\n")[0]?.slice(0, 60) ?? "";
+            const extra = detail ? ` ${detail}` : "";
+            console.log(
+              `${date.slice(0, 10)} ${commit.slice(0, 7)} ${id} ${kind} ${entry.type}${extra}: ${label}`
+            );
+          }
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    show: defineCommand({
+      meta: {
+        name: "show",
+        description: "Show an entry, optionally as it was at a git revision",
+      },
+      args: {
+        ...jsonArgs,
+        id: {
+          type: "string",
+          description: "Entry ID",
+          required: true,
+        },
+        at: {
+          type: "string",
+          description: "Git revision, such as HEAD~3 or a commit hash",
+        },
+        restore: {
+          type: "boolean",
+          description: "Write the version from --at back to the store",
+        },
+      },
+      async run({ args }) {
+        const id = await resolveIdOption(args["id"]);
+        const at = args["at"] as string | undefined;
+        if (args["restore"] && at === undefined) {
+          invalidArgument("--restore needs --at <revision>");
+        }
+        try {
+          let entry: MemoryEntry;
+          if (at === undefined) {
+            entry = await store.readMemoryEntry(id);
+          } else {
+            const past = await readEntryAtRevision(store, id, at);
+            if (!past) {
+              throw new EzerError("NOT_FOUND", `${id} does not exist at ${at}`);
+            }
+            entry = past;
+          }
+
+          if (args["restore"]) {
+            await store.restoreEntry(entry);
+            if (jsonOutput) {
+              await printJsonEntry(store, entry);
+              return;
+            }
+            console.log(`Restored ${id} as of ${at}`);
+            return;
+          }
+
+          if (jsonOutput) {
+            const states = getPuzzleStates(
+              await store.listMemoryEntries("puzzle", { includeArchived: true })
+            );
+            printJson({ entry: toJsonEntry(entry, at === undefined ? states : undefined) });
+            return;
+          }
+          if (entry.type === "session") {
+            console.log(await renderSessionSummary(store, entry));
+            return;
+          }
+          if (entry.type === "note") {
+            console.log(formatNoteOpenTag(entry));
+          } else if (entry.type === "puzzle") {
+            console.log(
+              `<puzzle id="${entry.id}" title="${entry.title ?? ""}" status="${entry.status ?? "open"}">`
+            );
+          } else {
+            console.log(`<${entry.type} id="${entry.id}">`);
+          }
+          console.log(entry.content);
+          console.log(`</${entry.type}>`);
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    journal: defineCommand({
+      meta: {
+        name: "journal",
+        description: "List recent operations that ezer undo can revert",
+      },
+      args: {
+        ...jsonArgs,
+        limit: {
+          type: "string",
+          description: "Only the most recent N operations (default: 20)",
+        },
+      },
+      async run({ args }) {
+        const limit = Number(args["limit"] ?? 20);
+        if (!Number.isInteger(limit) || limit < 1) {
+          invalidArgument("--limit must be a positive integer");
+        }
+        try {
+          const operations = (await store.listJournal()).slice(-limit).reverse();
+          if (jsonOutput) {
+            printJson({ operations: operations.map(toJsonOperation) });
+            return;
+          }
+          if (operations.length === 0) {
+            console.log("No operations recorded.");
+            return;
+          }
+          for (const operation of operations) {
+            console.log(formatOperation(operation));
+          }
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    undo: defineCommand({
+      meta: {
+        name: "undo",
+        description: "Revert the most recent operations",
+      },
+      args: {
+        ...jsonArgs,
+        steps: {
+          type: "string",
+          description: "How many operations to revert (default: 1)",
+        },
+        force: {
+          type: "boolean",
+          description: "Revert even if the entries changed since",
+        },
+      },
+      async run({ args }) {
+        const steps = Number(args["steps"] ?? 1);
+        if (!Number.isInteger(steps) || steps < 1) {
+          invalidArgument("--steps must be a positive integer");
+        }
+        try {
+          const undone = await store.undo(steps, { force: args["force"] === true });
+          if (jsonOutput) {
+            printJson({ undone: undone.map(toJsonOperation) });
+            return;
+          }
+          for (const operation of undone) {
+            console.log(`Undid ${formatOperation(operation)}`);
+          }
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    sync: defineCommand({
+      meta: {
+        name: "sync",
+        description: "Commit .ezer/ changes, then pull with rebase and push",
+      },
+      args: {
+        ...jsonArgs,
+        push: {
+          type: "boolean",
+          description: "Pull and push after committing (use --no-push offline)",
+          default: true,
+        },
+      },
+      async run({ args }) {
+        try {
+          const result = await syncStore(store, { push: args["push"] !== false });
+          if (jsonOutput) {
+            printJson({ ...result });
+            return;
+          }
+          console.log(result.committed ? `Committed: ${result.committed}` : "Nothing to commit.");
+          if (result.pulled) console.log("Pulled with rebase.");
+          if (result.pushed) console.log("Pushed.");
+          if (result.skipped) console.log(`Not pushed: ${result.skipped}.`);
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    session: defineCommand({
+      meta: {
+        name: "session",
+        description: "Mark the start and end of a working session",
+      },
+      subCommands: {
+        start: defineCommand({
+          meta: {
+            name: "start",
+            description: "Start a session, recording the git branch and HEAD",
+          },
+          args: jsonArgs,
+          async run() {
+            try {
+              const session = await store.startSession(await getRepositoryInfo(store.root));
+              if (jsonOutput) {
+                printJson({ entry: toJsonEntry(session) });
+                return;
+              }
+              console.log(`Started ${session.id}`);
+            } catch (error) {
+              fail(error);
             }
           },
         }),
+        end: defineCommand({
+          meta: {
+            name: "end",
+            description: "End the active session and print what it did",
+          },
+          args: {
+            ...jsonArgs,
+            summary: {
+              type: "string",
+              description: "What this session did, in your own words",
+            },
+          },
+          async run({ args }) {
+            try {
+              const { head } = await getRepositoryInfo(store.root);
+              const session = await store.endSession({
+                head,
+                summary: args["summary"] as string | undefined,
+              });
+              if (jsonOutput) {
+                printJson({ entry: toJsonEntry(session) });
+                return;
+              }
+              console.log(await renderSessionSummary(store, session));
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+        show: defineCommand({
+          meta: {
+            name: "show",
+            description: "Show the active session, or the last ended one",
+          },
+          args: {
+            ...jsonArgs,
+            last: {
+              type: "boolean",
+              description: "Show the last ended session even if one is active",
+            },
+            id: {
+              type: "string",
+              description: "Show this session",
+            },
+          },
+          async run({ args }) {
+            try {
+              const id =
+                args["id"] === undefined ? undefined : await resolveIdOption(args["id"]);
+              let session: MemoryEntry | null;
+              if (id !== undefined) {
+                session = await store.readMemoryEntry(id);
+                if (session.type !== "session") {
+                  throw new EzerError("WRONG_TYPE", `${id} is not a session`);
+                }
+              } else {
+                session =
+                  (!args["last"] ? await store.getActiveSession() : null) ??
+                  (await getLastSession(store));
+              }
+              if (jsonOutput) {
+                printJson({ entry: session ? toJsonEntry(session) : null });
+                return;
+              }
+              console.log(
+                session ? await renderSessionSummary(store, session) : "No sessions yet."
+              );
+            } catch (error) {
+              fail(error);
+            }
+          },
+        }),
+      },
+    }),
+    "merge-driver": defineCommand({
+      meta: {
+        name: "merge-driver",
+        description: "Merge three versions of a memory file (run by git)",
+      },
+      args: {
+        base: { type: "positional", description: "Common ancestor (%O)", required: true },
+        ours: {
+          type: "positional",
+          description: "Our version, overwritten with the result (%A)",
+          required: true,
+        },
+        theirs: { type: "positional", description: "Their version (%B)", required: true },
+      },
+      async run({ args }) {
+        try {
+          const [basePath, oursPath, theirsPath] = args._;
+          if (!basePath || !oursPath || !theirsPath) {
+            invalidArgument("Usage: ezer merge-driver <base> <ours> <theirs>");
+          }
+          const result = await mergeMemoryFile(
+            await readFile(basePath, "utf-8"),
+            await readFile(oursPath, "utf-8"),
+            await readFile(theirsPath, "utf-8")
+          );
+          await writeFile(oursPath, result.text, "utf-8");
+          // A non-zero exit tells git the file still has conflicts
+          process.exitCode = result.conflict ? 1 : 0;
+        } catch (error) {
+          fail(error);
+        }
+      },
+    }),
+    "install-merge-driver": defineCommand({
+      meta: {
+        name: "install-merge-driver",
+        description: "Register the merge driver in .git/config and .gitattributes",
+      },
+      args: jsonArgs,
+      async run() {
+        try {
+          const { gitattributes, added } = await installMergeDriver(store.root);
+          if (jsonOutput) {
+            printJson({ gitattributes, added });
+            return;
+          }
+          console.log("Registered merge driver \"ezer\" in git config");
+          console.log(
+            added
+              ? `Added memory files to ${gitattributes}`
+              : `${gitattributes} already routes memory files to ezer`
+          );
+        } catch (error) {
+          fail(error);
+        }
       },
     }),
     feedback: defineCommand({
@@ -745,6 +2159,7 @@ const main = defineCommand({
             description: "Create feedback for ezer developers",
           },
           args: {
+            ...jsonArgs,
             content: {
               type: "string",
               description: "Feedback content",
@@ -754,10 +2169,13 @@ const main = defineCommand({
           async run({ args }) {
             const content = args["content"];
             if (typeof content !== "string") {
-              console.error("Error: --content is required");
-              process.exit(1);
+              invalidArgument("--content is required");
+            }
+            const entry = await store.createFeedback(content);
+            if (jsonOutput) {
+              printJson({ entry: toJsonEntry(entry) });
+              return;
             }
-            const entry = await createFeedback(content);
             console.log(`Created ${entry.id}`);
           },
         }),
@@ -766,9 +2184,14 @@ const main = defineCommand({
             name: "submit",
             description: "Generate a GitHub issue link with collected feedback",
           },
+          args: jsonArgs,
           async run() {
-            const feedbacks = await listMemoryEntries("feedback");
+            const feedbacks = await store.listMemoryEntries("feedback");
             if (feedbacks.length === 0) {
+              if (jsonOutput) {
+                printJson({ url: null, entries: [] });
+                return;
+              }
               console.log("No feedback to submit.");
               return;
             }
@@ -784,6 +2207,10 @@ const main = defineCommand({
             const url = `https://github.com/dtinth/ezer/issues/new?title=${encodeURIComponent(
               title
             )}&body=${encodeURIComponent(body)}`;
+            if (jsonOutput) {
+              printJson({ url, entries: feedbacks.map((entry) => toJsonEntry(entry)) });
+              return;
+            }
             console.log(url);
           },
         }),
@@ -792,8 +2219,13 @@ const main = defineCommand({
             name: "clear",
             description: "Remove all collected feedback entries",
           },
+          args: jsonArgs,
           async run() {
-            const removed = await clearFeedback();
+            const removed = await store.clearFeedback();
+            if (jsonOutput) {
+              printJson({ cleared: removed });
+              return;
+            }
             if (removed === 0) {
               console.log("No feedback to clear.");
             } else {
@@ -807,10 +2239,49 @@ const main = defineCommand({
   },
 });
 
+/** Commands that work before `ezer init`, or on files outside the store. */
+const STORELESS_COMMANDS = ["init", "merge-driver", "priming"];
+
 // If no subcommand provided, show priming text
-const args = process.argv.slice(2);
-if (args.length === 0 || args[0]?.startsWith("-")) {
-  getPrimingText().then((text) => console.log(text));
+const commandArgs = args.filter((arg) => arg !== "--json" && arg !== "--no-json");
+const isHelp = args.includes("--help") || args.includes("-h");
+if (commandArgs.length === 0 || commandArgs[0]?.startsWith("-")) {
+  try {
+    console.log(await getPrimingText(store));
+  } catch (error) {
+    fail(error);
+  }
+} else if (
+  !STORELESS_COMMANDS.includes(commandArgs[0] ?? "") &&
+  !isHelp &&
+  !(await store.exists())
+) {
+  // Only `ezer init` may create a store; anything else would silently
+  // split memory across directories.
+  const location =
+    resolvedRoot.source === "option" || resolvedRoot.source === "env"
+      ? store.root
+      : `${process.cwd()} or any parent directory`;
+  fail(
+    new EzerError(
+      "NO_STORE",
+      `No .ezer directory found in ${location}. Run "ezer init" to create one.`
+    )
+  );
+} else if (configError && commandArgs[0] !== "config") {
+  fail(configError);
+} else if (jsonOutput) {
+  // citty reports usage errors as text; report them as JSON instead
+  runCommand(main, { rawArgs: args }).catch((error: unknown) => {
+    const code = (error as { code?: unknown }).code;
+    if (code === "E_UNKNOWN_COMMAND") {
+      fail(new EzerError("UNKNOWN_COMMAND", getErrorMessage(error)));
+    }
+    if (code === "EARG" || code === "E_NO_COMMAND") {
+      fail(new EzerError("INVALID_ARGUMENT", getErrorMessage(error)));
+    }
+    fail(error);
+  });
 } else {
-  runMain(main);
+  runMain(main, { rawArgs: args });
 }
@@ -0,0 +1,14 @@
+export {
+  EzerStore,
+  ID_PATTERN,
+  getPuzzleStates,
+  parseMemoryFile,
+  type EzerStoreOptions,
+  type MemoryEntry,
+  type PuzzleState,
+  type PuzzleStatus,
+  type SessionInfo,
+} from "./lib/memory.ts";
+export { EzerError, type EzerErrorCode } from "./lib/errors.ts";
+export { JSON_OUTPUT_VERSION, toJsonEntry, type JsonEntry, type JsonError } from "./lib/json.ts";
+export { DEFAULT_SETTINGS, type SettingKey, type Settings } from "./lib/config.ts";
@@ -0,0 +1,22 @@
+import { randomBytes } from "node:crypto";
+import { rename, rm, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+
+/**
+ * Write a file by writing a temporary file next to it and renaming it into
+ * place, so readers and crashes never see a half-written file. The
+ * temporary name ends in `.tmp`, which listings skip.
+ */
+export async function writeFileAtomic(path: string, data: string): Promise<void> {
+  const temp = join(
+    dirname(path),
+    `.${basename(path)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`
+  );
+  try {
+    await writeFile(temp, data, "utf-8");
+    await rename(temp, path);
+  } catch (error) {
+    await rm(temp, { force: true });
+    throw error;
+  }
+}
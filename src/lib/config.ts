@@ -0,0 +1,235 @@
+import { mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { parseYAML, stringifyYAML } from "confbox";
+import { writeFileAtomic } from "./atomic.ts";
+import { EzerError, getErrorMessage } from "./errors.ts";
+
+/**
+ * Every supported setting, by dotted key. In YAML the dots are nesting:
+ * `notes.softLimit` is written as `notes: { softLimit: ... }`.
+ */
+export interface Settings {
+  /** ID prefix for new entries. Set by `ezer init`. */
+  prefix: string | undefined;
+  "notes.softLimit": number;
+  "notes.hardLimit": number;
+  "ids.randomLength": number;
+  "puzzle.defaultFilter": "ready" | "blocked" | "in-progress" | "closed";
+  "puzzle.leaseHours": number;
+  "output.format": "text" | "json";
+  "status.showClosed": boolean;
+}
+
+export type SettingKey = keyof Settings;
+export type SettingSource = "default" | "user" | "project";
+
+export const DEFAULT_SETTINGS: Settings = {
+  prefix: undefined,
+  "notes.softLimit": 30000,
+  "notes.hardLimit": 32768,
+  "ids.randomLength": 5,
+  "puzzle.defaultFilter": "ready",
+  "puzzle.leaseHours": 4,
+  "output.format": "text",
+  "status.showClosed": false,
+};
+
+export const PREFIX_PATTERN = /^[a-z0-9]{2,}$/;
+export const MIN_ID_RANDOM_LENGTH = 4;
+export const MAX_ID_RANDOM_LENGTH = 12;
+
+function parseInteger(min: number, max = Number.MAX_SAFE_INTEGER) {
+  return (value: unknown): number => {
+    const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof number !== "number" || !Number.isInteger(number) || number < min || number > max) {
+      throw new Error(
+        max === Number.MAX_SAFE_INTEGER
+          ? `must be an integer of at least ${min}`
+          : `must be an integer from ${min} to ${max}`
+      );
+    }
+    return number;
+  };
+}
+
+function parseChoice<T extends string>(choices: readonly T[]) {
+  return (value: unknown): T => {
+    if (!choices.includes(value as T)) {
+      throw new Error(`must be one of ${choices.join(", ")}`);
+    }
+    return value as T;
+  };
+}
+
+function parseBoolean(value: unknown): boolean {
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  throw new Error("must be true or false");
+}
+
+const SETTING_PARSERS: { [K in SettingKey]: (value: unknown) => Settings[K] } = {
+  prefix: (value) => {
+    if (typeof value !== "string" || !PREFIX_PATTERN.test(value)) {
+      throw new Error("must be at least 2 lowercase letters or digits");
+    }
+    return value;
+  },
+  "notes.softLimit": parseInteger(1),
+  "notes.hardLimit": parseInteger(1),
+  "ids.randomLength": parseInteger(MIN_ID_RANDOM_LENGTH, MAX_ID_RANDOM_LENGTH),
+  "puzzle.defaultFilter": parseChoice(["ready", "blocked", "in-progress", "closed"] as const),
+  "puzzle.leaseHours": parseInteger(1),
+  "output.format": parseChoice(["text", "json"] as const),
+  "status.showClosed": parseBoolean,
+};
+
+export const SETTING_DESCRIPTIONS: Record<SettingKey, string> = {
+  prefix: "ID prefix for new entries",
+  "notes.softLimit": "Total note bytes before a warning",
+  "notes.hardLimit": "Total note bytes that cannot be exceeded",
+  "ids.randomLength": "Random characters in new IDs",
+  "puzzle.defaultFilter": "What `puzzle list` shows without a filter flag",
+  "puzzle.leaseHours": "Hours a `puzzle start` claim lasts before the puzzle is ready again",
+  "output.format": "Default output format (`--json`/`--no-json` override it)",
+  "status.showClosed": "Include closed puzzles in status and priming",
+};
+
+export const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as SettingKey[];
+
+function isSettingKey(key: string): key is SettingKey {
+  return (SETTING_KEYS as string[]).includes(key);
+}
+
+function invalidConfig(message: string): EzerError {
+  return new EzerError("INVALID_CONFIG", message);
+}
+
+/** Parse a value (from YAML or the command line) for a setting. */
+export function parseSetting<K extends SettingKey>(key: K, value: unknown): Settings[K] {
+  try {
+    return SETTING_PARSERS[key](value);
+  } catch (error) {
+    throw invalidConfig(`${key} ${getErrorMessage(error)}`);
+  }
+}
+
+/** The user-level config file, `$XDG_CONFIG_HOME/ezer/config.yaml`. */
+export function getUserConfigFile(env: Record<string, string | undefined> = process.env): string {
+  const base = env["XDG_CONFIG_HOME"] || join(homedir(), ".config");
+  return join(base, "ezer", "config.yaml");
+}
+
+async function readConfigFile(file: string): Promise<Record<string, unknown>> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+  let raw: unknown;
+  try {
+    raw = parseYAML(text);
+  } catch (error) {
+    throw invalidConfig(`${file} is not valid YAML: ${getErrorMessage(error)}`);
+  }
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw invalidConfig(`${file} must contain a mapping of settings`);
+  }
+  return raw as Record<string, unknown>;
+}
+
+/** Flatten nested YAML into validated dotted keys. */
+function flattenConfig(raw: Record<string, unknown>, file: string): Partial<Settings> {
+  const settings: Record<string, unknown> = {};
+  const visit = (object: Record<string, unknown>, path: string) => {
+    for (const [name, value] of Object.entries(object)) {
+      const key = path ? `${path}.${name}` : name;
+      if (isSettingKey(key)) {
+        try {
+          settings[key] = parseSetting(key, value);
+        } catch (error) {
+          throw invalidConfig(`${file}: ${getErrorMessage(error)}`);
+        }
+      } else if (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        SETTING_KEYS.some((known) => known.startsWith(`${key}.`))
+      ) {
+        visit(value as Record<string, unknown>, key);
+      } else {
+        throw invalidConfig(
+          `${file}: unknown setting "${key}". Known settings: ${SETTING_KEYS.join(", ")}`
+        );
+      }
+    }
+  };
+  visit(raw, "");
+  return settings as Partial<Settings>;
+}
+
+export interface LoadedSettings {
+  settings: Settings;
+  sources: Record<SettingKey, SettingSource>;
+}
+
+/** Layer defaults, then the user file, then the project file. */
+export async function loadSettings(files: {
+  project: string;
+  user: string | null;
+}): Promise<LoadedSettings> {
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+  const sources = Object.fromEntries(SETTING_KEYS.map((key) => [key, "default"])) as Record<
+    SettingKey,
+    SettingSource
+  >;
+  const layers: Array<[SettingSource, string | null]> = [
+    ["user", files.user],
+    ["project", files.project],
+  ];
+  for (const [source, file] of layers) {
+    if (!file) continue;
+    for (const [key, value] of Object.entries(flattenConfig(await readConfigFile(file), file))) {
+      settings[key] = value;
+      sources[key as SettingKey] = source;
+    }
+  }
+
+  const result = settings as unknown as Settings;
+  if (result["notes.softLimit"] > result["notes.hardLimit"]) {
+    throw invalidConfig(
+      `notes.softLimit (${result["notes.softLimit"]}) must not exceed notes.hardLimit (${result["notes.hardLimit"]})`
+    );
+  }
+  return { settings: result, sources };
+}
+
+/**
+ * Set one setting in a config file, keeping the others.
+ * Unknown keys and invalid values are rejected before anything is written.
+ */
+export async function writeSetting(file: string, key: string, value: unknown): Promise<void> {
+  if (!isSettingKey(key)) {
+    throw invalidConfig(`Unknown setting "${key}". Known settings: ${SETTING_KEYS.join(", ")}`);
+  }
+  const parsed = parseSetting(key, value);
+  const raw = await readConfigFile(file);
+  flattenConfig(raw, file);
+
+  const parts = key.split(".");
+  let object = raw;
+  for (const part of parts.slice(0, -1)) {
+    const next = object[part];
+    if (typeof next !== "object" || next === null || Array.isArray(next)) {
+      object[part] = {};
+    }
+    object = object[part] as Record<string, unknown>;
+  }
+  object[parts[parts.length - 1]!] = parsed;
+
+  await mkdir(dirname(file), { recursive: true });
+  await writeFileAtomic(file, `${stringifyYAML(raw).trimEnd()}\n`);
+}
@@ -0,0 +1,291 @@
+import { access, readdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { parseYAML, stringifyYAML } from "confbox";
+import { getErrorMessage } from "./errors.ts";
+import {
+  findCycles,
+  ID_PATTERN,
+  isEntryType,
+  type EzerStore,
+  type FileRepair,
+  type MemoryEntry,
+} from "./memory.ts";
+import { normalizeRefs, parseRef } from "./refs.ts";
+
+export type DoctorCheck =
+  | "conflict-markers"
+  | "invalid-frontmatter"
+  | "id-mismatch"
+  | "unknown-type"
+  | "missing-created"
+  | "invalid-blocks"
+  | "dangling-blocks"
+  | "cycle"
+  | "missing-ref";
+
+export interface DoctorIssue {
+  check: DoctorCheck;
+  /** File name inside `.ezer/memory`. */
+  file: string;
+  message: string;
+  /** Whether `--fix` knows a safe repair for this issue. */
+  fixable: boolean;
+  fixed: boolean;
+}
+
+export interface DoctorOptions {
+  /** Apply safe repairs instead of only reporting. */
+  fix?: boolean | undefined;
+  /** Also report `refs` to files that no longer exist in the working tree. */
+  refs?: boolean | undefined;
+}
+
+interface CheckedFile {
+  file: string;
+  id: string;
+  frontMatter: Record<string, unknown>;
+  body: string;
+  /** Rewrite the frontmatter when fixing. */
+  dirty: boolean;
+  /** Rename to this ID when fixing. */
+  renameTo?: string;
+}
+
+const CONFLICT_MARKER_PATTERN = /^(<{7}|>{7})( |$)/m;
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check every file under `.ezer/memory` for problems that normal commands
+ * skip over or cannot see, optionally repairing the safe ones.
+ *
+ * Safe repairs only drop or fill in data that ezer can reconstruct: invalid
+ * and dangling `blocks` IDs, a missing `created` (taken from the file's
+ * modification time), and a misnamed file whose correct ID is unambiguous.
+ * Conflict markers, unknown types, cycles and missing refs need a human
+ * decision. Repairs run as one operation under the store lock, so they
+ * do not race other agents and `ezer undo` can revert them.
+ */
+export async function diagnoseStore(
+  store: EzerStore,
+  options: DoctorOptions = {}
+): Promise<DoctorIssue[]> {
+  if (options.fix) {
+    return store.repairFiles((repair) => diagnose(store, options, repair));
+  }
+  return diagnose(store, options);
+}
+
+async function diagnose(
+  store: EzerStore,
+  options: DoctorOptions,
+  repair?: (file: FileRepair) => Promise<void>
+): Promise<DoctorIssue[]> {
+  let files: string[];
+  try {
+    files = (await readdir(store.memoryDir)).filter((file) => file.endsWith(".md")).sort();
+  } catch {
+    return [];
+  }
+
+  const issues: DoctorIssue[] = [];
+  const report = (check: DoctorCheck, file: string, message: string, fixable = false) => {
+    issues.push({ check, file, message, fixable, fixed: false });
+  };
+
+  const checked: CheckedFile[] = [];
+  for (const file of files) {
+    const path = join(store.memoryDir, file);
+    const text = await readFile(path, "utf-8");
+
+    if (CONFLICT_MARKER_PATTERN.test(text)) {
+      report("conflict-markers", file, "contains unresolved git conflict markers");
+      continue;
+    }
+
+    const match = text.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+    if (!match) {
+      report("invalid-frontmatter", file, "does not start with a --- frontmatter block");
+      continue;
+    }
+    let frontMatter: unknown;
+    try {
+      frontMatter = parseYAML(match[1] ?? "");
+    } catch (error) {
+      report("invalid-frontmatter", file, `frontmatter is not valid YAML: ${getErrorMessage(error)}`);
+      continue;
+    }
+    if (typeof frontMatter !== "object" || frontMatter === null || Array.isArray(frontMatter)) {
+      report("invalid-frontmatter", file, "frontmatter is not a mapping");
+      continue;
+    }
+
+    const entry: CheckedFile = {
+      file,
+      id: file.replace(/\.md$/, ""),
+      frontMatter: frontMatter as Record<string, unknown>,
+      body: match[2] ?? "",
+      dirty: false,
+    };
+    checked.push(entry);
+    const fields = entry.frontMatter;
+
+    // ezer never writes an `id` field: the file name is the ID
+    const claimedId = typeof fields["id"] === "string" ? fields["id"].trim() : undefined;
+    if (!ID_PATTERN.test(entry.id)) {
+      const candidate = [claimedId, entry.id.toLowerCase()].find(
+        (id): id is string => id !== undefined && ID_PATTERN.test(id)
+      );
+      const free =
+        candidate !== undefined && !(await fileExists(join(store.memoryDir, `${candidate}.md`)));
+      report(
+        "id-mismatch",
+        file,
+        free
+          ? `file name is not a valid ID; should be ${candidate}.md`
+          : "file name is not a valid ID",
+        free
+      );
+      if (free) {
+        entry.renameTo = candidate;
+        delete fields["id"];
+        entry.dirty = true;
+      }
+    } else if (claimedId !== undefined && claimedId !== entry.id) {
+      report("id-mismatch", file, `frontmatter id ${claimedId} does not match the file name`, true);
+      delete fields["id"];
+      entry.dirty = true;
+    }
+
+    if (!isEntryType(fields["type"])) {
+      report("unknown-type", file, `unknown type "${String(fields["type"])}"`);
+    }
+
+    // Hand-written timestamps may be unquoted, which YAML reads as dates
+    const created = fields["created"];
+    if (
+      !(typeof created === "string" || created instanceof Date) ||
+      Number.isNaN(new Date(created).getTime())
+    ) {
+      report("missing-created", file, "missing or invalid created timestamp", true);
+      fields["created"] = (await stat(join(store.memoryDir, file))).mtime.toISOString();
+      entry.dirty = true;
+    }
+
+    const rawBlocks = fields["blocks"];
+    if (rawBlocks !== undefined) {
+      const list: unknown[] = Array.isArray(rawBlocks) ? rawBlocks : [rawBlocks];
+      const valid = list.filter(
+        (id): id is string => typeof id === "string" && ID_PATTERN.test(id.trim())
+      );
+      const invalid = list.filter((id) => !valid.includes(id as string));
+      if (invalid.length > 0) {
+        report(
+          "invalid-blocks",
+          file,
+          `blocks contains invalid IDs: ${invalid.map((id) => JSON.stringify(id)).join(", ")}`,
+          true
+        );
+        setBlocks(entry, valid.map((id) => id.trim()));
+      }
+    }
+  }
+
+  const known = new Set(checked.map((entry) => entry.renameTo ?? entry.id));
+  // Archived puzzles are still valid link targets
+  try {
+    for (const file of await readdir(store.archiveDir)) {
+      known.add(file.replace(/\.md$/, ""));
+    }
+  } catch {
+    // No archive yet
+  }
+  const puzzles: MemoryEntry[] = [];
+  for (const entry of checked) {
+    const blocks = getBlocks(entry);
+    const dangling = blocks.filter((id) => !known.has(id));
+    if (dangling.length > 0) {
+      report(
+        "dangling-blocks",
+        entry.file,
+        `blocks puzzles that no longer exist: ${dangling.join(", ")}`,
+        true
+      );
+      setBlocks(entry, blocks.filter((id) => known.has(id)));
+    }
+    if (entry.frontMatter["type"] === "puzzle") {
+      puzzles.push({
+        id: entry.renameTo ?? entry.id,
+        type: "puzzle",
+        content: "",
+        created: "",
+        blocks: getBlocks(entry),
+      });
+    }
+  }
+
+  for (const cycle of findCycles(puzzles)) {
+    report(
+      "cycle",
+      `${cycle[0]}.md`,
+      `dependency cycle ${cycle.join(" → ")}; break it with "ezer puzzle unlink"`
+    );
+  }
+
+  if (options.refs) {
+    for (const entry of checked) {
+      const missing: string[] = [];
+      for (const ref of normalizeRefs(entry.frontMatter["refs"], true)) {
+        if (!(await fileExists(join(store.root, parseRef(ref).path)))) {
+          missing.push(ref);
+        }
+      }
+      if (missing.length > 0) {
+        report(
+          "missing-ref",
+          entry.file,
+          `refers to files that no longer exist: ${missing.join(", ")}; update with --ref`
+        );
+      }
+    }
+  }
+
+  if (repair) {
+    for (const entry of checked) {
+      if (!entry.dirty && !entry.renameTo) continue;
+      const yaml = stringifyYAML(entry.frontMatter).trimEnd();
+      await repair({
+        id: entry.id,
+        text: entry.dirty ? `---\n${yaml}\n---\n${entry.body}` : undefined,
+        renameTo: entry.renameTo,
+      });
+    }
+    for (const issue of issues) {
+      issue.fixed = issue.fixable;
+    }
+  }
+
+  return issues;
+}
+
+function getBlocks(entry: CheckedFile): string[] {
+  const blocks = entry.frontMatter["blocks"];
+  const list: unknown[] = Array.isArray(blocks) ? blocks : blocks === undefined ? [] : [blocks];
+  return list.filter((id): id is string => typeof id === "string").map((id) => id.trim());
+}
+
+function setBlocks(entry: CheckedFile, blocks: string[]): void {
+  if (blocks.length > 0) {
+    entry.frontMatter["blocks"] = blocks;
+  } else {
+    delete entry.frontMatter["blocks"];
+  }
+  entry.dirty = true;
+}
@@ -0,0 +1,40 @@
+/**
+ * Stable error codes. These appear in `--json` error output, so existing
+ * codes must not be renamed.
+ */
+export type EzerErrorCode =
+  | "INVALID_ARGUMENT"
+  | "INVALID_ID"
+  | "INVALID_FILE"
+  | "INVALID_CONFIG"
+  | "NOT_FOUND"
+  | "NO_STORE"
+  | "WRONG_TYPE"
+  | "NOT_LINKED"
+  | "CYCLE"
+  | "CLAIMED"
+  | "CONFLICT"
+  | "LOCKED"
+  | "AMBIGUOUS"
+  | "NOTE_LIMIT_EXCEEDED"
+  | "GIT_ERROR"
+  | "UNKNOWN_COMMAND"
+  | "INTERNAL";
+
+export class EzerError extends Error {
+  readonly code: EzerErrorCode;
+
+  constructor(code: EzerErrorCode, message: string) {
+    super(message);
+    this.name = "EzerError";
+    this.code = code;
+  }
+}
+
+export function getErrorCode(error: unknown): EzerErrorCode {
+  return error instanceof EzerError ? error.code : "INTERNAL";
+}
+
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
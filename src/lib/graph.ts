@@ -0,0 +1,159 @@
+import { EzerError } from "./errors.ts";
+import { getPuzzleStates, type MemoryEntry, type PuzzleState } from "./memory.ts";
+
+export const GRAPH_FORMATS = ["mermaid", "dot"] as const;
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export function isGraphFormat(value: unknown): value is GraphFormat {
+  return GRAPH_FORMATS.includes(value as GraphFormat);
+}
+
+export interface GraphOptions {
+  /** Only puzzles this one blocks or is blocked by, directly or transitively. */
+  rootId?: string | undefined;
+  /** Leave out closed puzzles and their links. */
+  hideClosed?: boolean | undefined;
+  /**
+   * Only puzzles this many links away from the root, or from the puzzles
+   * that block nothing when there is no root.
+   */
+  depth?: number | undefined;
+}
+
+export interface PuzzleGraph {
+  nodes: Array<{ puzzle: MemoryEntry; state: PuzzleState }>;
+  /** `from` blocks `to`. */
+  edges: Array<{ from: string; to: string }>;
+}
+
+/** Breadth-first distances from `starts`, following `next`. */
+function distancesFrom(
+  starts: string[],
+  next: (id: string) => string[],
+  maxDepth: number
+): Map<string, number> {
+  const distances = new Map(starts.map((id) => [id, 0]));
+  const queue = [...starts];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const distance = distances.get(id)!;
+    if (distance >= maxDepth) continue;
+    for (const neighbor of next(id)) {
+      if (!distances.has(neighbor)) {
+        distances.set(neighbor, distance + 1);
+        queue.push(neighbor);
+      }
+    }
+  }
+  return distances;
+}
+
+/**
+ * Select the puzzles and `blocks` links to draw. Links to puzzles that are
+ * not in the graph (deleted, archived or hidden) are left out.
+ */
+export function buildPuzzleGraph(puzzles: MemoryEntry[], options: GraphOptions = {}): PuzzleGraph {
+  const states = getPuzzleStates(puzzles);
+  const visible = puzzles.filter(
+    (puzzle) => !options.hideClosed || states.get(puzzle.id)?.state !== "closed"
+  );
+  const byId = new Map(visible.map((puzzle) => [puzzle.id, puzzle]));
+  const blocks = (id: string) => (byId.get(id)?.blocks ?? []).filter((target) => byId.has(target));
+  const blockedBy = (id: string) =>
+    visible.filter((puzzle) => puzzle.blocks?.includes(id)).map((puzzle) => puzzle.id);
+  const maxDepth = options.depth ?? Number.POSITIVE_INFINITY;
+
+  let included: Set<string>;
+  if (options.rootId !== undefined) {
+    if (!byId.has(options.rootId)) {
+      throw new EzerError("NOT_FOUND", `Puzzle ${options.rootId} not found`);
+    }
+    included = new Set([
+      ...distancesFrom([options.rootId], blocks, maxDepth).keys(),
+      ...distancesFrom([options.rootId], blockedBy, maxDepth).keys(),
+    ]);
+  } else if (options.depth !== undefined) {
+    const goals = visible.filter((puzzle) => blocks(puzzle.id).length === 0);
+    included = new Set(
+      distancesFrom(
+        goals.map((puzzle) => puzzle.id),
+        blockedBy,
+        maxDepth
+      ).keys()
+    );
+  } else {
+    included = new Set(byId.keys());
+  }
+
+  const nodes = visible
+    .filter((puzzle) => included.has(puzzle.id))
+    .map((puzzle) => ({ puzzle, state: states.get(puzzle.id)?.state ?? "ready" }));
+  const edges = nodes.flatMap(({ puzzle }) =>
+    blocks(puzzle.id)
+      .filter((target) => included.has(target))
+      .map((target) => ({ from: puzzle.id, to: target }))
+  );
+  return { nodes, edges };
+}
+
+const STATE_STYLES: Record<PuzzleState, { fill: string; stroke: string; color: string }> = {
+  ready: { fill: "#dafbe1", stroke: "#1a7f37", color: "#1f2328" },
+  blocked: { fill: "#ffebe9", stroke: "#cf222e", color: "#1f2328" },
+  "in-progress": { fill: "#ddf4ff", stroke: "#0969da", color: "#1f2328" },
+  closed: { fill: "#f6f8fa", stroke: "#8c959f", color: "#656d76" },
+};
+
+/** Mermaid IDs and class names cannot contain hyphens. */
+function mermaidId(id: string): string {
+  return id.replace(/-/g, "_");
+}
+
+function mermaidLabel(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/[\r\n]+/g, " ");
+}
+
+/** Render a graph as a Mermaid flowchart, blockers below what they block. */
+export function renderMermaid(graph: PuzzleGraph): string {
+  const lines = ["flowchart BT"];
+  for (const { puzzle, state } of graph.nodes) {
+    const label = mermaidLabel(`${puzzle.id}: ${puzzle.title ?? ""}`);
+    lines.push(`  ${mermaidId(puzzle.id)}["${label}"]:::${mermaidId(state)}`);
+  }
+  for (const { from, to } of graph.edges) {
+    lines.push(`  ${mermaidId(from)} --> ${mermaidId(to)}`);
+  }
+  for (const [state, style] of Object.entries(STATE_STYLES)) {
+    const css = `fill:${style.fill},stroke:${style.stroke},color:${style.color}`;
+    lines.push(`  classDef ${mermaidId(state)} ${css}`);
+  }
+  return lines.join("\n");
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/[\r\n]+/g, " ")}"`;
+}
+
+/** Render a graph in Graphviz DOT, blockers below what they block. */
+export function renderDot(graph: PuzzleGraph): string {
+  const lines = [
+    "digraph puzzles {",
+    "  rankdir=BT;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+  for (const { puzzle, state } of graph.nodes) {
+    const style = STATE_STYLES[state];
+    const label = dotString(`${puzzle.id}: ${puzzle.title ?? ""}`);
+    lines.push(
+      `  ${dotString(puzzle.id)} [label=${label}, fillcolor="${style.fill}", color="${style.stroke}", fontcolor="${style.color}"];`
+    );
+  }
+  for (const { from, to } of graph.edges) {
+    lines.push(`  ${dotString(from)} -> ${dotString(to)};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+export function renderGraph(graph: PuzzleGraph, format: GraphFormat): string {
+  return format === "dot" ? renderDot(graph) : renderMermaid(graph);
+}
@@ -0,0 +1,190 @@
+import { basename } from "node:path";
+import { EzerError } from "./errors.ts";
+import { runGit } from "./git.ts";
+import { ID_PATTERN, parseMemoryFile, type EzerStore, type MemoryEntry } from "./memory.ts";
+
+export type HistoryEventKind =
+  | "created"
+  | "changed"
+  | "closed"
+  | "reopened"
+  | "started"
+  | "released"
+  | "linked"
+  | "unlinked"
+  | "updated"
+  | "archived"
+  | "unarchived"
+  | "deleted";
+
+export interface HistoryEvent {
+  id: string;
+  kind: HistoryEventKind;
+  /** Extra context: link targets, or which fields were updated. */
+  detail?: string;
+  commit: string;
+  date: string;
+  subject: string;
+  /** The entry after the change, or before it for `deleted`. */
+  entry: MemoryEntry;
+}
+
+export interface HistoryOptions {
+  /** Only events for this entry. */
+  id?: string | undefined;
+  /** Only the most recent commits. */
+  limit?: number | undefined;
+}
+
+const COMMIT_MARKER = "\u0001";
+
+function memoryPath(id: string, dir: "memory" | "archive" = "memory"): string {
+  return `./.ezer/${dir}/${id}.md`;
+}
+
+interface Version {
+  entry: MemoryEntry;
+  archived: boolean;
+}
+
+async function readVersion(
+  store: EzerStore,
+  id: string,
+  revision: string
+): Promise<Version | null> {
+  for (const dir of ["memory", "archive"] as const) {
+    const result = await runGit(store.root, ["show", `${revision}:${memoryPath(id, dir)}`]);
+    if (result.exitCode !== 0) continue;
+    try {
+      return { entry: parseMemoryFile(id, result.stdout), archived: dir === "archive" };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+async function assertGitRepository(store: EzerStore): Promise<void> {
+  const result = await runGit(store.root, ["rev-parse", "--git-dir"]);
+  if (result.exitCode !== 0) {
+    throw new EzerError("GIT_ERROR", `${store.root} is not inside a git repository`);
+  }
+}
+
+/**
+ * Read an entry as it was at a git revision, from the memory directory or
+ * the archive. Returns null if the entry did not exist there (or the
+ * revision is unknown).
+ */
+export async function readEntryAtRevision(
+  store: EzerStore,
+  id: string,
+  revision: string
+): Promise<MemoryEntry | null> {
+  return (await readVersion(store, id, revision))?.entry ?? null;
+}
+
+function diffEvents(
+  beforeVersion: Version | null,
+  afterVersion: Version | null
+): Array<{ kind: HistoryEventKind; detail?: string; entry: MemoryEntry }> {
+  const before = beforeVersion?.entry;
+  const after = afterVersion?.entry;
+  if (!before && after) return [{ kind: "created", entry: after }];
+  if (before && !after) return [{ kind: "deleted", entry: before }];
+  if (!before || !after) return [];
+
+  const events: Array<{ kind: HistoryEventKind; detail?: string; entry: MemoryEntry }> = [];
+  if (beforeVersion?.archived !== afterVersion?.archived) {
+    events.push({ kind: afterVersion?.archived ? "archived" : "unarchived", entry: after });
+  }
+  if (before.content !== after.content || before.title !== after.title) {
+    events.push({ kind: "changed", entry: after });
+  }
+  if (before.status !== after.status) {
+    const kind =
+      after.status === "closed"
+        ? "closed"
+        : before.status === "closed"
+          ? "reopened"
+          : after.status === "in-progress"
+            ? "started"
+            : "released";
+    events.push({
+      kind,
+      ...(kind === "started" && after.claimedBy ? { detail: `by ${after.claimedBy}` } : {}),
+      entry: after,
+    });
+  }
+  const beforeBlocks = before.blocks ?? [];
+  const afterBlocks = after.blocks ?? [];
+  const linked = afterBlocks.filter((id) => !beforeBlocks.includes(id));
+  const unlinked = beforeBlocks.filter((id) => !afterBlocks.includes(id));
+  if (linked.length > 0) {
+    events.push({ kind: "linked", detail: `blocks ${linked.join(", ")}`, entry: after });
+  }
+  if (unlinked.length > 0) {
+    events.push({ kind: "unlinked", detail: `from ${unlinked.join(", ")}`, entry: after });
+  }
+  const fields = (["priority", "tags", "refs"] as const).filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+  if (fields.length > 0) {
+    events.push({ kind: "updated", detail: fields.join(", "), entry: after });
+  }
+  return events;
+}
+
+/**
+ * Turn the git history of `.ezer/memory` and `.ezer/archive` into semantic
+ * events, newest first.
+ * Only committed changes are visible.
+ */
+export async function getHistory(
+  store: EzerStore,
+  options: HistoryOptions = {}
+): Promise<HistoryEvent[]> {
+  await assertGitRepository(store);
+  if (options.id !== undefined && !ID_PATTERN.test(options.id)) {
+    throw new EzerError("INVALID_ID", `invalid id: ${options.id}`);
+  }
+
+  const args = [
+    "log",
+    `--format=${COMMIT_MARKER}%H%x09%aI%x09%s`,
+    "--name-status",
+    "--no-renames",
+    ...(options.limit !== undefined ? [`-n${options.limit}`] : []),
+    "--",
+    ...(options.id !== undefined
+      ? [memoryPath(options.id), memoryPath(options.id, "archive")]
+      : ["./.ezer/memory", "./.ezer/archive"]),
+  ];
+  const log = await runGit(store.root, args);
+  if (log.exitCode !== 0) {
+    // A repository without commits has no history yet
+    if (/does not have any commits/.test(log.stderr)) return [];
+    throw new EzerError("GIT_ERROR", `git log failed: ${log.stderr.trim()}`);
+  }
+
+  const events: HistoryEvent[] = [];
+  for (const chunk of log.stdout.split(COMMIT_MARKER).filter((part) => part.trim())) {
+    const [header = "", ...files] = chunk.split("\n");
+    const [commit = "", date = "", subject = ""] = header.split("\t");
+    // Archiving shows up as a deletion plus an addition of the same ID
+    const ids = new Set(
+      files
+        .map((line) => line.split("\t")[1])
+        .filter((path): path is string => path?.endsWith(".md") === true)
+        .map((path) => basename(path, ".md"))
+    );
+    for (const id of ids) {
+      const before = await readVersion(store, id, `${commit}^`);
+      const after = await readVersion(store, id, commit);
+      for (const event of diffEvents(before, after)) {
+        events.push({ id, commit, date, subject, ...event });
+      }
+    }
+  }
+  return events;
+}
@@ -0,0 +1,90 @@
+import { appendFile, readFile } from "node:fs/promises";
+import { writeFileAtomic } from "./atomic.ts";
+import { getErrorMessage } from "./errors.ts";
+
+/** A memory file as it was on disk: its text, and whether it was archived. */
+export interface EntrySnapshot {
+  text: string;
+  archived?: boolean | undefined;
+}
+
+/** One file touched by an operation. `null` means the file did not exist. */
+export interface JournalChange {
+  id: string;
+  before: EntrySnapshot | null;
+  after: EntrySnapshot | null;
+}
+
+/** A store operation, such as `replaceNotes`, with every file it changed. */
+export interface JournalOperation {
+  seq: number;
+  at: string;
+  op: string;
+  changes: JournalChange[];
+}
+
+/** Older operations are dropped once the journal holds this many. */
+export const JOURNAL_LIMIT = 200;
+
+/**
+ * Read the journal, oldest first. Unreadable lines (such as one cut short
+ * by a crash) are skipped with a warning.
+ */
+export async function readJournal(
+  file: string,
+  onWarning: (message: string) => void = () => {}
+): Promise<JournalOperation[]> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const operations: JournalOperation[] = [];
+  for (const [index, line] of text.split("\n").entries()) {
+    if (line.trim().length === 0) continue;
+    try {
+      operations.push(JSON.parse(line) as JournalOperation);
+    } catch (error) {
+      onWarning(`Warning: Skipping journal line ${index + 1}: ${getErrorMessage(error)}`);
+    }
+  }
+  return operations;
+}
+
+export async function writeJournal(file: string, operations: JournalOperation[]): Promise<void> {
+  const lines = operations.map((operation) => `${JSON.stringify(operation)}\n`);
+  await writeFileAtomic(file, lines.join(""));
+}
+
+/** Append an operation, numbering it after the last one. */
+export async function appendJournal(
+  file: string,
+  operation: Omit<JournalOperation, "seq">
+): Promise<JournalOperation> {
+  const operations = await readJournal(file);
+  const entry = { seq: (operations.at(-1)?.seq ?? 0) + 1, ...operation };
+  if (operations.length >= JOURNAL_LIMIT) {
+    await writeJournal(file, [...operations.slice(-(JOURNAL_LIMIT - 1)), entry]);
+  } else {
+    await appendFile(file, `${JSON.stringify(entry)}\n`, "utf-8");
+  }
+  return entry;
+}
+
+/**
+ * Summarize what an operation did to each entry: `+id` created, `-id`
+ * deleted, `>id` archived, `<id` unarchived and `~id` changed.
+ */
+export function describeChanges(changes: JournalChange[]): string {
+  return changes
+    .map(({ id, before, after }) => {
+      if (!before) return `+${id}`;
+      if (!after) return `-${id}`;
+      if (!before.archived && after.archived) return `>${id}`;
+      if (before.archived && !after.archived && before.text === after.text) return `<${id}`;
+      return `~${id}`;
+    })
+    .join(" ");
+}
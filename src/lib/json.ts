@@ -0,0 +1,54 @@
+import { getErrorCode, getErrorMessage, type EzerErrorCode } from "./errors.ts";
+import { DEFAULT_PRIORITY, type MemoryEntry, type PuzzleStatus } from "./memory.ts";
+
+/**
+ * Version of the `--json` output shape. Bump when a field is removed or
+ * changes meaning; adding fields is not a breaking change.
+ */
+export const JSON_OUTPUT_VERSION = 1;
+
+/** A memory entry as emitted by `--json`, with computed puzzle state. */
+export interface JsonEntry extends MemoryEntry {
+  state?: PuzzleStatus["state"];
+  blockedBy?: string[];
+  unblocks?: number;
+}
+
+export interface JsonError {
+  version: number;
+  error: {
+    code: EzerErrorCode;
+    message: string;
+  };
+}
+
+export function toJsonEntry(
+  entry: MemoryEntry,
+  states?: Map<string, PuzzleStatus>
+): JsonEntry {
+  if (entry.type !== "puzzle") {
+    return { ...entry };
+  }
+  const status = states?.get(entry.id);
+  const puzzle: JsonEntry = { ...entry, priority: entry.priority ?? DEFAULT_PRIORITY };
+  if (status) {
+    puzzle.state = status.state;
+    puzzle.blockedBy = status.blockedBy;
+    puzzle.unblocks = status.unblocks;
+  }
+  return puzzle;
+}
+
+export function printJson(data: Record<string, unknown>): void {
+  console.log(JSON.stringify({ version: JSON_OUTPUT_VERSION, ...data }, null, 2));
+}
+
+export function toJsonError(error: unknown): JsonError {
+  return {
+    version: JSON_OUTPUT_VERSION,
+    error: {
+      code: getErrorCode(error),
+      message: getErrorMessage(error),
+    },
+  };
+}
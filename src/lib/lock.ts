@@ -0,0 +1,154 @@
+import { randomBytes } from "node:crypto";
+import { open, readFile, rename, rm, stat } from "node:fs/promises";
+import { hostname } from "node:os";
+import { EzerError } from "./errors.ts";
+
+/** What a lock file records about its holder. */
+export interface LockInfo {
+  pid: number;
+  host: string;
+  acquiredAt: string;
+  token: string;
+}
+
+export interface LockOptions {
+  /** Give up with LOCKED after waiting this long. */
+  timeoutMs?: number | undefined;
+  /** Treat a lock held longer than this as abandoned, whoever holds it. */
+  staleMs?: number | undefined;
+  onWarning?: ((message: string) => void) | undefined;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 60_000;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function modifiedAt(path: string): Promise<Date | null> {
+  try {
+    return (await stat(path)).mtime;
+  } catch {
+    return null;
+  }
+}
+
+async function readLock(path: string): Promise<LockInfo | null> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a lock is abandoned, or null if its holder may still be working.
+ * A lock that cannot be read is only abandoned once it is old, since its
+ * holder may be between creating and writing it.
+ */
+function staleReason(lock: LockInfo | null, ageMs: number, staleMs: number): string | null {
+  if (lock && lock.host === hostname() && !isProcessAlive(lock.pid)) {
+    return `process ${lock.pid} is no longer running`;
+  }
+  if (ageMs > staleMs) {
+    return `it was taken ${Math.round(ageMs / 1000)}s ago`;
+  }
+  return null;
+}
+
+/**
+ * Remove an abandoned lock. It is renamed aside first and checked again, so
+ * two processes that both found it stale cannot remove a lock that a third
+ * process took in between.
+ */
+async function breakLock(path: string, stale: LockInfo | null): Promise<void> {
+  const aside = `${path}.${process.pid}.${randomBytes(4).toString("hex")}.stale`;
+  try {
+    await rename(path, aside);
+  } catch {
+    return; // Someone else broke it first
+  }
+  const moved = await readLock(aside);
+  if (stale && moved?.token !== stale.token) {
+    // A fresh lock: put it back unless yet another one was taken meanwhile
+    try {
+      const handle = await open(path, "wx");
+      await handle.close();
+      await rename(aside, path);
+    } catch {
+      // The new holder will find its lock gone; at worst two writers overlap once
+    }
+  }
+  await rm(aside, { force: true });
+}
+
+/**
+ * Run `fn` while holding an advisory lock file, waiting for other holders
+ * to finish. Locks left by crashed processes are detected and broken.
+ * Throws LOCKED if the lock stays busy longer than the timeout.
+ */
+export async function withLock<T>(
+  path: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const info: LockInfo = {
+    pid: process.pid,
+    host: hostname(),
+    acquiredAt: new Date().toISOString(),
+    token: randomBytes(8).toString("hex"),
+  };
+  const deadline = Date.now() + timeoutMs;
+  let delay = 5;
+
+  for (;;) {
+    try {
+      const handle = await open(path, "wx");
+      try {
+        info.acquiredAt = new Date().toISOString();
+        await handle.writeFile(JSON.stringify(info));
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    const holder = await readLock(path);
+    const since = holder ? new Date(holder.acquiredAt) : await modifiedAt(path);
+    const ageMs = since ? Date.now() - since.getTime() : 0;
+    const reason = staleReason(holder, ageMs, staleMs);
+    if (reason) {
+      options.onWarning?.(`Warning: Breaking stale lock ${path}: ${reason}`);
+      await breakLock(path, holder);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      const by = holder ? ` by process ${holder.pid} on ${holder.host}` : "";
+      throw new EzerError(
+        "LOCKED",
+        `Timed out waiting for ${path}, held${by}. If no ezer command is running, delete it.`
+      );
+    }
+    await Bun.sleep(delay + Math.random() * delay);
+    delay = Math.min(delay * 2, 100);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    if ((await readLock(path))?.token === info.token) {
+      await rm(path, { force: true });
+    }
+  }
+}
@@ -0,0 +1,418 @@
+import { createInterface } from "node:readline";
+import { EzerError, getErrorMessage, type EzerErrorCode } from "./errors.ts";
+import { toJsonEntry } from "./json.ts";
+import {
+  getPuzzleStates,
+  isPriority,
+  PRIORITIES,
+  type EzerStore,
+  type MemoryEntry,
+} from "./memory.ts";
+import { getPrimingText, renderState } from "./priming.ts";
+
+// Minimal Model Context Protocol server over stdio: newline-delimited
+// JSON-RPC 2.0 messages on stdin, responses on stdout.
+
+const PROTOCOL_VERSION = "2025-06-18";
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/** Store errors caused by the request rather than by ezer or the disk. */
+const INVALID_PARAMS_CODES: EzerErrorCode[] = [
+  "INVALID_ARGUMENT",
+  "INVALID_ID",
+  "NOT_FOUND",
+  "WRONG_TYPE",
+  "AMBIGUOUS",
+];
+
+class RpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function getRpcErrorCode(error: unknown): number {
+  if (error instanceof RpcError) return error.code;
+  if (error instanceof EzerError && INVALID_PARAMS_CODES.includes(error.code)) {
+    return INVALID_PARAMS;
+  }
+  return INTERNAL_ERROR;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+  run(store: EzerStore, input: Record<string, unknown>): Promise<unknown>;
+}
+
+function requireString(input: Record<string, unknown>, key: string): string {
+  const value = input[key];
+  if (typeof value !== "string") {
+    throw new EzerError("INVALID_ARGUMENT", `"${key}" must be a string`);
+  }
+  return value;
+}
+
+function optionalStringArray(input: Record<string, unknown>, key: string): string[] | undefined {
+  const value = input[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    throw new EzerError("INVALID_ARGUMENT", `"${key}" must be an array of strings`);
+  }
+  return value;
+}
+
+function optionalString(input: Record<string, unknown>, key: string): string | undefined {
+  const value = input[key];
+  return value === undefined ? undefined : requireString(input, key);
+}
+
+/** Read an ID argument, which may be abbreviated as on the command line. */
+function requireId(store: EzerStore, input: Record<string, unknown>, key: string): Promise<string> {
+  return store.resolveId(requireString(input, key));
+}
+
+async function withPuzzleState(store: EzerStore, entry: MemoryEntry): Promise<unknown> {
+  const states = getPuzzleStates(await store.listMemoryEntries("puzzle"));
+  return toJsonEntry(entry, states);
+}
+
+const REFS_SCHEMA = {
+  type: "array",
+  items: { type: "string" },
+  description: "Code locations relative to the project root: path, path:12-40 or path#symbol",
+};
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: "createNote",
+    description: "Record a decision, discovery, or context for future sessions.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        content: { type: "string", description: "Note content" },
+        tags: { type: "array", items: { type: "string" }, description: "Tags" },
+        refs: REFS_SCHEMA,
+      },
+      required: ["content"],
+    },
+    run: async (store, input) =>
+      toJsonEntry(
+        await store.createNote(requireString(input, "content"), {
+          tags: optionalStringArray(input, "tags"),
+          refs: optionalStringArray(input, "refs"),
+        })
+      ),
+  },
+  {
+    name: "updateNote",
+    description: "Replace the content of an existing note.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Note ID" },
+        content: { type: "string", description: "New content" },
+      },
+      required: ["id", "content"],
+    },
+    run: async (store, input) =>
+      toJsonEntry(
+        await store.updateNote(await requireId(store, input, "id"), requireString(input, "content"))
+      ),
+  },
+  {
+    name: "replaceNotes",
+    description: "Consolidate several notes into one new note.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: { type: "array", items: { type: "string" }, description: "Note IDs to replace" },
+        content: { type: "string", description: "New consolidated content" },
+      },
+      required: ["ids", "content"],
+    },
+    run: async (store, input) => {
+      const ids = optionalStringArray(input, "ids");
+      if (!ids) {
+        throw new EzerError("INVALID_ARGUMENT", `"ids" must be an array of strings`);
+      }
+      const resolved: string[] = [];
+      for (const id of ids) {
+        resolved.push(await store.resolveId(id));
+      }
+      return toJsonEntry(await store.replaceNotes(resolved, requireString(input, "content")));
+    },
+  },
+  {
+    name: "createPuzzle",
+    description: "Create a puzzle: a piece of work or an unknown to resolve later.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Puzzle title" },
+        description: { type: "string", description: "Puzzle description" },
+        blocks: { type: "string", description: "ID of puzzle that this new puzzle blocks" },
+        tags: { type: "array", items: { type: "string" }, description: "Tags" },
+        refs: REFS_SCHEMA,
+        priority: { type: "string", enum: PRIORITIES, description: "p0 is most urgent" },
+      },
+      required: ["title"],
+    },
+    run: async (store, input) => {
+      const priority = optionalString(input, "priority");
+      const blocks =
+        input["blocks"] === undefined ? undefined : await requireId(store, input, "blocks");
+      if (priority !== undefined && !isPriority(priority)) {
+        throw new EzerError(
+          "INVALID_ARGUMENT",
+          `"priority" must be one of ${PRIORITIES.join(", ")}`
+        );
+      }
+      return withPuzzleState(
+        store,
+        await store.createPuzzle(
+          requireString(input, "title"),
+          optionalString(input, "description"),
+          blocks,
+          {
+            tags: optionalStringArray(input, "tags"),
+            refs: optionalStringArray(input, "refs"),
+            priority,
+          }
+        )
+      );
+    },
+  },
+  {
+    name: "updatePuzzleStatus",
+    description: "Close or reopen a puzzle.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Puzzle ID" },
+        status: { type: "string", enum: ["open", "closed"] },
+      },
+      required: ["id", "status"],
+    },
+    run: async (store, input) => {
+      const status = requireString(input, "status");
+      if (status !== "open" && status !== "closed") {
+        throw new EzerError("INVALID_ARGUMENT", `"status" must be "open" or "closed"`);
+      }
+      return withPuzzleState(
+        store,
+        await store.updatePuzzleStatus(await requireId(store, input, "id"), status)
+      );
+    },
+  },
+  {
+    name: "updatePuzzleBlocks",
+    description: "Change which puzzles a puzzle blocks.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Puzzle ID to update" },
+        blocks: {
+          type: ["string", "null"],
+          description: "Puzzle ID that this puzzle blocks (null clears all)",
+        },
+        action: { type: "string", enum: ["set", "append", "remove"], default: "set" },
+      },
+      required: ["id", "blocks"],
+    },
+    run: async (store, input) => {
+      const action = optionalString(input, "action") ?? "set";
+      if (action !== "set" && action !== "append" && action !== "remove") {
+        throw new EzerError("INVALID_ARGUMENT", `"action" must be "set", "append" or "remove"`);
+      }
+      const blocks = input["blocks"] === null ? null : await requireId(store, input, "blocks");
+      return withPuzzleState(
+        store,
+        await store.updatePuzzleBlocks(await requireId(store, input, "id"), blocks, action)
+      );
+    },
+  },
+  {
+    name: "renderPuzzleTree",
+    description: "Show the dependency tree around a puzzle.",
+    inputSchema: {
+      type: "object",
+      properties: { id: { type: "string", description: "Puzzle ID" } },
+      required: ["id"],
+    },
+    run: async (store, input) => store.renderPuzzleTree(await requireId(store, input, "id")),
+  },
+];
+
+const RESOURCES = [
+  {
+    uri: "ezer://state",
+    name: "state",
+    description: "Open puzzles and notes",
+    mimeType: "text/markdown",
+    read: renderState,
+  },
+  {
+    uri: "ezer://priming",
+    name: "priming",
+    description: "Current state with ezer usage instructions",
+    mimeType: "text/markdown",
+    read: getPrimingText,
+  },
+];
+
+/**
+ * Create a handler for MCP JSON-RPC messages backed by the given store.
+ * Returns null for notifications, which get no response.
+ */
+export function createMcpHandler(
+  store: EzerStore
+): (message: unknown) => Promise<JsonRpcResponse | null> {
+  async function dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case "initialize":
+        return {
+          protocolVersion:
+            typeof params["protocolVersion"] === "string"
+              ? params["protocolVersion"]
+              : PROTOCOL_VERSION,
+          capabilities: { tools: {}, resources: {}, prompts: {} },
+          serverInfo: { name: "ezer", version: "0.0.0" },
+        };
+      case "ping":
+        return {};
+      case "tools/list":
+        return {
+          tools: TOOLS.map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema,
+          })),
+        };
+      case "tools/call": {
+        const tool = TOOLS.find((t) => t.name === params["name"]);
+        if (!tool) {
+          throw new RpcError(INVALID_PARAMS, `Unknown tool: ${String(params["name"])}`);
+        }
+        const input = (params["arguments"] ?? {}) as Record<string, unknown>;
+        try {
+          const result = await tool.run(store, input);
+          const text = typeof result === "string" ? result : JSON.stringify(result, null, 2);
+          return { content: [{ type: "text", text }] };
+        } catch (error) {
+          // Tool failures are reported to the model, not as protocol errors
+          return { content: [{ type: "text", text: getErrorMessage(error) }], isError: true };
+        }
+      }
+      case "resources/list":
+        return {
+          resources: RESOURCES.map(({ uri, name, description, mimeType }) => ({
+            uri,
+            name,
+            description,
+            mimeType,
+          })),
+        };
+      case "resources/read": {
+        const resource = RESOURCES.find((r) => r.uri === params["uri"]);
+        if (!resource) {
+          throw new RpcError(INVALID_PARAMS, `Unknown resource: ${String(params["uri"])}`);
+        }
+        return {
+          contents: [
+            { uri: resource.uri, mimeType: resource.mimeType, text: await resource.read(store) },
+          ],
+        };
+      }
+      case "prompts/list":
+        return {
+          prompts: [{ name: "priming", description: "Load ezer context at session start" }],
+        };
+      case "prompts/get": {
+        if (params["name"] !== "priming") {
+          throw new RpcError(INVALID_PARAMS, `Unknown prompt: ${String(params["name"])}`);
+        }
+        return {
+          description: "Load ezer context at session start",
+          messages: [
+            { role: "user", content: { type: "text", text: await getPrimingText(store) } },
+          ],
+        };
+      }
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  return async (message) => {
+    const request = message as Partial<JsonRpcRequest> | null;
+    if (typeof request !== "object" || request === null || typeof request.method !== "string") {
+      return {
+        jsonrpc: "2.0",
+        id: request?.id ?? null,
+        error: { code: INVALID_REQUEST, message: "Invalid request" },
+      };
+    }
+    const isNotification = request.id === undefined;
+    try {
+      const result = await dispatch(request.method, request.params ?? {});
+      return isNotification ? null : { jsonrpc: "2.0", id: request.id ?? null, result };
+    } catch (error) {
+      if (isNotification) return null;
+      return {
+        jsonrpc: "2.0",
+        id: request.id ?? null,
+        error: { code: getRpcErrorCode(error), message: getErrorMessage(error) },
+      };
+    }
+  };
+}
+
+/**
+ * Serve MCP over stdio until stdin closes.
+ * Messages are handled one at a time so responses keep request order.
+ */
+export async function serveMcp(store: EzerStore): Promise<void> {
+  const handle = createMcpHandler(store);
+  const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim().length === 0) continue;
+    let response: JsonRpcResponse | null;
+    try {
+      response = await handle(JSON.parse(line));
+    } catch {
+      response = { jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } };
+    }
+    if (response) {
+      process.stdout.write(`${JSON.stringify(response)}\n`);
+    }
+  }
+}
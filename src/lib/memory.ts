@@ -1,84 +1,113 @@
-import { mkdir, readdir, readFile, writeFile, unlink } from "node:fs/promises";
-import { join } from "node:path";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
 import { parseYAML, stringifyYAML } from "confbox";
-
-const EZER_DIR = ".ezer";
-const MEMORY_DIR = join(EZER_DIR, "memory");
-const CONFIG_FILE = join(EZER_DIR, "config.yaml");
+import {
+  getUserConfigFile,
+  loadSettings,
+  MAX_ID_RANDOM_LENGTH,
+  PREFIX_PATTERN,
+  writeSetting,
+  type LoadedSettings,
+  type Settings,
+} from "./config.ts";
+import { writeFileAtomic } from "./atomic.ts";
+import { EzerError, getErrorMessage } from "./errors.ts";
+import {
+  appendJournal,
+  readJournal,
+  writeJournal,
+  type EntrySnapshot,
+  type JournalOperation,
+} from "./journal.ts";
+import { withLock } from "./lock.ts";
+import { normalizeRefs } from "./refs.ts";
 
 // Base32 alphabet (lowercase, no padding)
 const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
 
-export const ID_PATTERN = /^[a-z0-9]{2,}-[a-z2-7]{5}$/;
+export const ID_PATTERN = /^[a-z0-9]{2,}-[a-z2-7]{4,12}$/;
+export const TAG_PATTERN = /^[^\s,#]+$/;
+
+/** What an ID typed by a user may look like: a full ID or an abbreviation of one. */
+const ID_INPUT_PATTERN = /^(?:[a-z0-9]{2,}-)?[a-z2-7]{1,12}$/;
 
 function generateRandomId(length: number): string {
-  let result = "";
-  for (let i = 0; i < length; i++) {
-    const randomIndex = Math.floor(Math.random() * BASE32_ALPHABET.length);
-    result += BASE32_ALPHABET[randomIndex];
-  }
-  return result;
+  // 32 divides 256, so masking each byte keeps every character equally likely
+  return Array.from(randomBytes(length), (byte) => BASE32_ALPHABET[byte & 31]).join("");
+}
+
+/** The part of an ID after the project prefix. */
+function randomPart(id: string): string {
+  return id.slice(id.lastIndexOf("-") + 1);
 }
 
 function derivePrefix(dirName: string): string {
-  const segments = dirName.split(/[-_]/);
-  let prefix = segments.map((s) => s[0] ?? "").join("");
+  const name = dirName.toLowerCase();
+  const segments = name.split(/[-_]/);
+  let prefix = segments.map((s) => s[0] ?? "").join("").replace(/[^a-z0-9]/g, "");
   if (prefix.length < 2) {
-    prefix = dirName.slice(0, 2);
+    prefix = name.replace(/[^a-z0-9]/g, "").slice(0, 2);
   }
-  return prefix.toLowerCase();
+  // Directory names like "a" or "." leave too little to go on
+  return prefix.length < 2 ? "ez" : prefix;
 }
 
-interface Config {
-  prefix: string;
+export interface MemoryEntry {
+  id: string;
+  type: "note" | "puzzle" | "feedback" | "session";
+  content: string;
+  created: string;
+  closedAt?: string;
+  // Puzzle-specific fields
+  title?: string;
+  status?: "open" | "in-progress" | "closed";
+  // Set while an agent works on a puzzle (status in-progress)
+  claimedBy?: string;
+  claimedAt?: string;
+  leaseUntil?: string;
+  priority?: Priority;
+  blocks?: string[]; // IDs of puzzles this entry blocks (parents depend on this)
+  tags?: string[];
+  refs?: string[]; // Code locations: `path`, `path:12-40` or `path#symbol`
+  // Session-specific fields
+  branch?: string;
+  head?: string;
+  endedAt?: string;
+  endHead?: string;
+  createdEntries?: string[]; // Notes and puzzles created during the session
+  closedPuzzles?: string[];
+  inProgress?: string[]; // Puzzles still claimed when the session ended
 }
 
-async function ensureDir(): Promise<void> {
-  await mkdir(MEMORY_DIR, { recursive: true });
-}
+export const ENTRY_TYPES = ["note", "puzzle", "feedback", "session"] as const;
 
-async function loadConfig(): Promise<Config | null> {
-  try {
-    const content = await readFile(CONFIG_FILE, "utf-8");
-    return parseYAML<Config>(content);
-  } catch {
-    return null;
-  }
+export function isEntryType(value: unknown): value is MemoryEntry["type"] {
+  return ENTRY_TYPES.includes(value as MemoryEntry["type"]);
 }
 
-async function saveConfig(config: Config): Promise<void> {
-  await mkdir(EZER_DIR, { recursive: true });
-  await writeFile(CONFIG_FILE, stringifyYAML(config));
-}
+export const PRIORITIES = ["p0", "p1", "p2", "p3"] as const;
+export type Priority = (typeof PRIORITIES)[number];
+/** Puzzles without an explicit priority rank as p2. */
+export const DEFAULT_PRIORITY: Priority = "p2";
 
-async function getOrCreatePrefix(): Promise<string> {
-  const config = await loadConfig();
-  if (config?.prefix) {
-    return config.prefix;
-  }
-  const cwd = process.cwd();
-  const dirName = cwd.split("/").pop() ?? "ez";
-  const prefix = derivePrefix(dirName);
-  await saveConfig({ prefix });
-  return prefix;
+export function isPriority(value: unknown): value is Priority {
+  return PRIORITIES.includes(value as Priority);
 }
 
-export async function generateId(): Promise<string> {
-  const prefix = await getOrCreatePrefix();
-  const random = generateRandomId(5);
-  return `${prefix}-${random}`;
+export interface CreateEntryOptions {
+  tags?: string[] | undefined;
+  refs?: string[] | undefined;
+  priority?: Priority | undefined;
 }
 
-export interface MemoryEntry {
-  id: string;
-  type: "note" | "puzzle" | "feedback";
-  content: string;
-  created: string;
-  closedAt?: string;
-  // Puzzle-specific fields
-  title?: string;
-  status?: "open" | "closed";
-  blocks?: string[]; // IDs of puzzles this entry blocks (parents depend on this)
+/** Fields to change on an existing entry. Omitted fields are left as they are. */
+export interface UpdateEntryOptions {
+  title?: string | undefined;
+  content?: string | undefined;
+  /** Replaces the entry's refs; an empty list removes them. */
+  refs?: string[] | undefined;
 }
 
 interface FrontMatter {
@@ -86,8 +115,21 @@ interface FrontMatter {
   created: string;
   title?: string;
   status?: string;
+  priority?: string;
   blocks?: string | string[];
   closedAt?: string;
+  claimedBy?: string;
+  claimedAt?: string;
+  leaseUntil?: string;
+  tags?: string | string[];
+  refs?: string | string[];
+  branch?: string;
+  head?: string;
+  endedAt?: string;
+  endHead?: string;
+  createdEntries?: string | string[];
+  closedPuzzles?: string | string[];
+  inProgress?: string | string[];
 }
 
 function normalizeBlocks(blocks: string | string[] | undefined): string[] | undefined {
@@ -107,26 +149,86 @@ function normalizeBlocks(blocks: string | string[] | undefined): string[] | unde
   return undefined;
 }
 
+/**
+ * Normalize tags from frontmatter or user input: trimmed, lowercased,
+ * deduplicated, in first-seen order. Invalid tags throw, or are dropped
+ * when `lenient` is set (for hand-edited files).
+ */
+export function normalizeTags(tags: unknown, lenient = false): string[] {
+  const list = Array.isArray(tags) ? tags : typeof tags === "string" ? [tags] : [];
+  const result: string[] = [];
+  for (const raw of list) {
+    if (typeof raw !== "string") continue;
+    const tag = raw.trim().toLowerCase();
+    if (tag.length === 0) continue;
+    if (!TAG_PATTERN.test(tag)) {
+      if (lenient) continue;
+      throw new EzerError(
+        "INVALID_ARGUMENT",
+        `Invalid tag "${tag}": tags cannot contain spaces, commas or #`
+      );
+    }
+    if (!result.includes(tag)) {
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+/** Whether the entry carries every one of the given tags. */
+export function hasTags(entry: Pick<MemoryEntry, "tags">, tags: string[]): boolean {
+  return tags.every((tag) => entry.tags?.includes(tag));
+}
+
 export function parseMemoryFile(id: string, content: string): MemoryEntry {
   const frontMatterMatch = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
   if (!frontMatterMatch) {
-    throw new Error(`Invalid memory file format for ${id}`);
+    throw new EzerError("INVALID_FILE", `Invalid memory file format for ${id}`);
   }
   const frontMatter = parseYAML<FrontMatter>(frontMatterMatch[1] ?? "");
   const body = frontMatterMatch[2]?.trim() ?? "";
+  if (!isEntryType(frontMatter?.type)) {
+    throw new EzerError("INVALID_FILE", `Unknown type "${String(frontMatter?.type)}" in ${id}`);
+  }
 
   const entry: MemoryEntry = {
     id,
-    type: frontMatter?.type as MemoryEntry["type"],
+    type: frontMatter.type,
     content: body,
     created: frontMatter?.created ?? "",
   };
   if (frontMatter?.title !== undefined) {
     entry.title = frontMatter.title;
   }
-  if (frontMatter?.status === "open" || frontMatter?.status === "closed") {
+  if (
+    frontMatter?.status === "open" ||
+    frontMatter?.status === "in-progress" ||
+    frontMatter?.status === "closed"
+  ) {
     entry.status = frontMatter.status;
   }
+  for (const key of [
+    "claimedBy",
+    "claimedAt",
+    "leaseUntil",
+    "branch",
+    "head",
+    "endedAt",
+    "endHead",
+  ] as const) {
+    if (typeof frontMatter?.[key] === "string") {
+      entry[key] = frontMatter[key];
+    }
+  }
+  for (const key of ["createdEntries", "closedPuzzles", "inProgress"] as const) {
+    const ids = normalizeBlocks(frontMatter?.[key]);
+    if (ids?.length) {
+      entry[key] = ids;
+    }
+  }
+  if (isPriority(frontMatter?.priority)) {
+    entry.priority = frontMatter.priority;
+  }
   if (typeof frontMatter?.closedAt === "string") {
     entry.closedAt = frontMatter.closedAt;
   }
@@ -134,6 +236,14 @@ export function parseMemoryFile(id: string, content: string): MemoryEntry {
   if (blocks?.length) {
     entry.blocks = blocks;
   }
+  const tags = normalizeTags(frontMatter?.tags, true);
+  if (tags.length > 0) {
+    entry.tags = tags;
+  }
+  const refs = normalizeRefs(frontMatter?.refs, true);
+  if (refs.length > 0) {
+    entry.refs = refs;
+  }
   return entry;
 }
 
@@ -141,7 +251,7 @@ function getBlocksList(entry: Pick<MemoryEntry, "blocks">): string[] {
   return entry.blocks ?? [];
 }
 
-function serializeMemoryEntry(entry: Omit<MemoryEntry, "id">): string {
+export function serializeMemoryEntry(entry: Omit<MemoryEntry, "id">): string {
   const frontMatter: Record<string, unknown> = {
     type: entry.type,
     created: entry.created,
@@ -152,381 +262,1377 @@ function serializeMemoryEntry(entry: Omit<MemoryEntry, "id">): string {
   if (entry.status) {
     frontMatter["status"] = entry.status;
   }
+  if (entry.claimedBy) {
+    frontMatter["claimedBy"] = entry.claimedBy;
+  }
+  if (entry.claimedAt) {
+    frontMatter["claimedAt"] = entry.claimedAt;
+  }
+  if (entry.leaseUntil) {
+    frontMatter["leaseUntil"] = entry.leaseUntil;
+  }
+  if (entry.priority) {
+    frontMatter["priority"] = entry.priority;
+  }
   if (entry.closedAt) {
     frontMatter["closedAt"] = entry.closedAt;
   }
   if (entry.blocks?.length) {
     frontMatter["blocks"] = entry.blocks;
   }
+  if (entry.tags?.length) {
+    frontMatter["tags"] = entry.tags;
+  }
+  if (entry.refs?.length) {
+    frontMatter["refs"] = entry.refs;
+  }
+  for (const key of ["branch", "head", "endedAt", "endHead"] as const) {
+    if (entry[key]) {
+      frontMatter[key] = entry[key];
+    }
+  }
+  for (const key of ["createdEntries", "closedPuzzles", "inProgress"] as const) {
+    if (entry[key]?.length) {
+      frontMatter[key] = entry[key];
+    }
+  }
   const yaml = stringifyYAML(frontMatter).trimEnd();
   return `---\n${yaml}\n---\n${entry.content}\n`;
 }
 
-const SOFT_LIMIT = 30000;
-const HARD_LIMIT = 32768;
+function setRefs(entry: MemoryEntry, refs: string[] | undefined): void {
+  if (refs === undefined) return;
+  const normalized = normalizeRefs(refs);
+  if (normalized.length > 0) {
+    entry.refs = normalized;
+  } else {
+    delete entry.refs;
+  }
+}
 
 function getByteSize(text: string): number {
   return Buffer.byteLength(text, "utf-8");
 }
 
-async function getTotalNoteSize(): Promise<number> {
-  const entries = await listMemoryEntries("note");
-  return entries.reduce((sum, entry) => sum + getByteSize(entry.content), 0);
-}
+export type PuzzleState = "ready" | "blocked" | "in-progress" | "closed";
 
-export async function createNote(content: string): Promise<MemoryEntry> {
-  const currentTotal = await getTotalNoteSize();
-  const contentBytes = getByteSize(content);
-  const newTotal = currentTotal + contentBytes;
+export interface PuzzleStatus {
+  state: PuzzleState;
+  blockedBy: string[]; // IDs of open puzzles that block this one
+  unblocks: number; // Open puzzles this one blocks, directly or transitively
+}
 
-  // Check hard limit
-  if (newTotal > HARD_LIMIT) {
-    throw new Error(
-      `Cannot add note: total would be ${newTotal} bytes, exceeds hard limit of ${HARD_LIMIT} bytes`
-    );
+/**
+ * Count the open puzzles reachable from `id` by following `blocks`,
+ * i.e. everything that is (partly) waiting on it.
+ */
+function countTransitivelyBlocked(id: string, openById: Map<string, MemoryEntry>): number {
+  const seen = new Set<string>([id]);
+  const stack = [...getBlocksList(openById.get(id) ?? {})];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (seen.has(current)) continue;
+    const puzzle = openById.get(current);
+    if (!puzzle) continue;
+    seen.add(current);
+    stack.push(...getBlocksList(puzzle));
   }
+  return seen.size - 1;
+}
 
-  await ensureDir();
-  const id = await generateId();
-  const created = new Date().toISOString();
+/**
+ * Whether a puzzle is claimed by an agent whose lease has not run out.
+ * An expired claim counts as open, returning the puzzle to the ready queue.
+ */
+export function isClaimActive(puzzle: MemoryEntry, now = new Date()): boolean {
+  return (
+    puzzle.status === "in-progress" &&
+    (puzzle.leaseUntil === undefined || new Date(puzzle.leaseUntil).getTime() > now.getTime())
+  );
+}
 
-  const entry: MemoryEntry = {
-    id,
-    type: "note",
-    content,
-    created,
-  };
+/**
+ * Compute ready/blocked/in-progress/closed state for each puzzle.
+ * A puzzle is blocked while any open puzzle lists it in `blocks`, and in
+ * progress while an agent's claim on it is active.
+ */
+export function getPuzzleStates(
+  puzzles: MemoryEntry[],
+  now = new Date()
+): Map<string, PuzzleStatus> {
+  const blockers = new Map<string, string[]>();
+  for (const puzzle of puzzles) {
+    if (puzzle.status === "closed") continue;
+    for (const target of getBlocksList(puzzle)) {
+      const list = blockers.get(target) ?? [];
+      list.push(puzzle.id);
+      blockers.set(target, list);
+    }
+  }
 
-  const filePath = join(MEMORY_DIR, `${id}.md`);
-  await writeFile(filePath, serializeMemoryEntry(entry));
+  const openById = new Map(
+    puzzles.filter((puzzle) => puzzle.status !== "closed").map((puzzle) => [puzzle.id, puzzle])
+  );
+  const states = new Map<string, PuzzleStatus>();
+  for (const puzzle of puzzles) {
+    const blockedBy = blockers.get(puzzle.id) ?? [];
+    const state: PuzzleState =
+      puzzle.status === "closed"
+        ? "closed"
+        : isClaimActive(puzzle, now)
+          ? "in-progress"
+          : blockedBy.length > 0
+            ? "blocked"
+            : "ready";
+    const unblocks = state === "closed" ? 0 : countTransitivelyBlocked(puzzle.id, openById);
+    states.set(puzzle.id, { state, blockedBy, unblocks });
+  }
+  return states;
+}
 
-  // Warn if soft limit exceeded
-  if (newTotal > SOFT_LIMIT) {
-    console.warn(
-      `Warning: Total notes size (${newTotal} bytes) exceeds soft limit of ${SOFT_LIMIT} bytes`
-    );
-    console.warn(
-      `Hint: Use 'ezer note replace --ids id1,id2 --content "..."' to consolidate related notes`
-    );
+/**
+ * Find a chain of `blocks` links leading from `fromId` to `toId`,
+ * returned as the list of IDs along the way (both ends included).
+ * Returns null when `toId` is not reachable.
+ */
+export function findBlocksPath(
+  puzzles: MemoryEntry[],
+  fromId: string,
+  toId: string
+): string[] | null {
+  const byId = new Map(puzzles.map((puzzle) => [puzzle.id, puzzle]));
+  const previous = new Map<string, string | null>([[fromId, null]]);
+  const queue = [fromId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === toId) {
+      const path: string[] = [];
+      for (let id: string | null = current; id !== null; id = previous.get(id) ?? null) {
+        path.unshift(id);
+      }
+      return path;
+    }
+    for (const next of getBlocksList(byId.get(current) ?? {})) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
   }
+  return null;
+}
 
-  return entry;
+/**
+ * Find every distinct cycle of `blocks` links, each returned as a path that
+ * starts and ends on the same ID.
+ */
+export function findCycles(puzzles: MemoryEntry[]): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  for (const puzzle of puzzles) {
+    for (const blocksId of getBlocksList(puzzle)) {
+      const path = findBlocksPath(puzzles, blocksId, puzzle.id);
+      if (!path) continue;
+      const key = [...new Set(path)].sort().join(",");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      cycles.push([puzzle.id, ...path]);
+    }
+  }
+  return cycles;
 }
 
-export async function createFeedback(content: string): Promise<MemoryEntry> {
-  await ensureDir();
-  const id = await generateId();
-  const created = new Date().toISOString();
+/**
+ * Order puzzles by what to work on first: priority, then how many open
+ * puzzles each one unblocks, then oldest first. Ties break on ID so the
+ * order is stable across runs and machines.
+ */
+export function sortByWorkOrder(
+  puzzles: MemoryEntry[],
+  states: Map<string, PuzzleStatus>
+): MemoryEntry[] {
+  const rank = (puzzle: MemoryEntry) => PRIORITIES.indexOf(puzzle.priority ?? DEFAULT_PRIORITY);
+  return [...puzzles].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      (states.get(b.id)?.unblocks ?? 0) - (states.get(a.id)?.unblocks ?? 0) ||
+      new Date(a.created).getTime() - new Date(b.created).getTime() ||
+      a.id.localeCompare(b.id)
+  );
+}
 
-  const entry: MemoryEntry = {
-    id,
-    type: "feedback",
-    content,
-    created,
-  };
+export interface ListEntriesOptions {
+  /** Also read entries moved to `.ezer/archive`. */
+  includeArchived?: boolean | undefined;
+}
 
-  const filePath = join(MEMORY_DIR, `${id}.md`);
-  await writeFile(filePath, serializeMemoryEntry(entry));
-  return entry;
+export interface StartPuzzleOptions {
+  /** Who is working on the puzzle, such as an agent or worktree name. */
+  by: string;
+  /** How long the claim lasts. Defaults to the `puzzle.leaseHours` setting. */
+  leaseMs?: number | undefined;
+  /** Take over a puzzle another agent has claimed. */
+  force?: boolean | undefined;
+}
+
+/** Where the repository was when a session started or ended. */
+export interface SessionInfo {
+  branch?: string | undefined;
+  head?: string | undefined;
+}
+
+export interface PuzzleTreeOptions {
+  /** Show closed puzzles. Defaults to true. */
+  includeClosed?: boolean | undefined;
+}
+
+/** A change `ezer doctor --fix` makes to a memory file, named by its file name. */
+export interface FileRepair {
+  /** File name without `.md`, which may not be a valid ID. */
+  id: string;
+  /** New file contents. */
+  text?: string | undefined;
+  /** Rename the file to this ID. */
+  renameTo?: string | undefined;
+}
+
+export interface EzerStoreOptions {
+  /** Directory that contains (or will contain) the `.ezer` directory. */
+  root: string;
+  /** Receives non-fatal warnings, such as the note soft limit. Defaults to `console.warn`. */
+  onWarning?: (message: string) => void;
+  /**
+   * User-level config layered under `.ezer/config.yaml`.
+   * Defaults to `~/.config/ezer/config.yaml`; null skips it.
+   */
+  userConfigFile?: string | null | undefined;
 }
 
 /**
- * Create a puzzle.
- * @param title - Puzzle title
- * @param description - Optional description
- * @param blocksId - If provided, this puzzle blocks the specified puzzle
+ * A memory store rooted at `<root>/.ezer`.
+ * All paths are resolved against the root, never against `process.cwd()`.
  */
-export async function createPuzzle(
-  title: string,
-  description?: string,
-  blocksId?: string
-): Promise<MemoryEntry> {
-  await ensureDir();
-  const id = await generateId();
-  const created = new Date().toISOString();
+export class EzerStore {
+  readonly root: string;
+  readonly ezerDir: string;
+  readonly memoryDir: string;
+  /** Closed puzzles moved out of `memoryDir` by `archiveClosedPuzzles`. */
+  readonly archiveDir: string;
+  readonly configFile: string;
+  /** Optional template that replaces the built-in priming text. */
+  readonly primingFile: string;
+  /** Local log of operations for `undo`, kept out of git. */
+  readonly journalFile: string;
+  readonly userConfigFile: string | null;
+  private readonly onWarning: (message: string) => void;
+  /** Local lock file held while an operation reads and writes entries. */
+  readonly lockFile: string;
+  /** Entries touched by the operation in progress, as they were before it. */
+  private readonly pending = new AsyncLocalStorage<Map<string, EntrySnapshot | null>>();
+
+  constructor(options: EzerStoreOptions) {
+    this.root = resolve(options.root);
+    this.ezerDir = join(this.root, ".ezer");
+    this.memoryDir = join(this.ezerDir, "memory");
+    this.archiveDir = join(this.ezerDir, "archive");
+    this.configFile = join(this.ezerDir, "config.yaml");
+    this.primingFile = join(this.ezerDir, "priming.md");
+    this.journalFile = join(this.ezerDir, "journal.jsonl");
+    this.lockFile = join(this.ezerDir, "lock");
+    this.onWarning = options.onWarning ?? ((message) => console.warn(message));
+    this.userConfigFile =
+      options.userConfigFile === undefined ? getUserConfigFile() : options.userConfigFile;
+  }
 
-  const entry: MemoryEntry = {
-    id,
-    type: "puzzle",
-    title,
-    content: description ?? "",
-    created,
-    status: "open",
-  };
-  if (blocksId) {
-    entry.blocks = [blocksId];
+  private entryPath(id: string): string {
+    return join(this.memoryDir, `${id}.md`);
   }
 
-  const filePath = join(MEMORY_DIR, `${id}.md`);
-  await writeFile(filePath, serializeMemoryEntry(entry));
-  return entry;
-}
+  private archivedEntryPath(id: string): string {
+    return join(this.archiveDir, `${id}.md`);
+  }
 
-export async function updatePuzzleStatus(
-  id: string,
-  status: "open" | "closed"
-): Promise<MemoryEntry> {
-  const filePath = join(MEMORY_DIR, `${id}.md`);
-  const content = await readFile(filePath, "utf-8");
-  const entry = parseMemoryFile(id, content);
+  /**
+   * Write an entry to the memory directory. Changing an archived entry
+   * brings it back out of the archive.
+   */
+  private async saveEntry(entry: MemoryEntry): Promise<void> {
+    await this.captureBefore(entry.id);
+    await writeFileAtomic(this.entryPath(entry.id), serializeMemoryEntry(entry));
+    await rm(this.archivedEntryPath(entry.id), { force: true });
+  }
 
-  if (entry.type !== "puzzle") {
-    throw new Error(`${id} is not a puzzle`);
+  private async removeEntry(id: string): Promise<void> {
+    await this.captureBefore(id);
+    await rm(this.entryPath(id), { force: true });
+    await rm(this.archivedEntryPath(id), { force: true });
   }
 
-  entry.status = status;
-  if (status === "closed") {
-    entry.closedAt = new Date().toISOString();
-  } else {
-    delete entry.closedAt;
+  private async readSnapshot(id: string): Promise<EntrySnapshot | null> {
+    for (const archived of [false, true]) {
+      try {
+        const text = await readFile(
+          archived ? this.archivedEntryPath(id) : this.entryPath(id),
+          "utf-8"
+        );
+        return archived ? { text, archived } : { text };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+    return null;
   }
-  await writeFile(filePath, serializeMemoryEntry(entry));
-  return entry;
-}
 
-export async function updatePuzzleBlocks(
-  id: string,
-  blocksId: string | null,
-  action: "set" | "append" | "remove" = "set"
-): Promise<MemoryEntry> {
-  const filePath = join(MEMORY_DIR, `${id}.md`);
-  const content = await readFile(filePath, "utf-8");
-  const entry = parseMemoryFile(id, content);
+  private async writeSnapshot(id: string, snapshot: EntrySnapshot | null): Promise<void> {
+    const [path, otherPath] = snapshot?.archived
+      ? [this.archivedEntryPath(id), this.entryPath(id)]
+      : [this.entryPath(id), this.archivedEntryPath(id)];
+    if (snapshot) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFileAtomic(path, snapshot.text);
+    } else {
+      await rm(path, { force: true });
+    }
+    await rm(otherPath, { force: true });
+  }
 
-  if (entry.type !== "puzzle") {
-    throw new Error(`${id} is not a puzzle`);
+  /** Remember how an entry looked before the operation in progress changed it. */
+  private async captureBefore(id: string): Promise<void> {
+    const pending = this.pending.getStore();
+    if (pending && !pending.has(id)) {
+      pending.set(id, await this.readSnapshot(id));
+    }
   }
 
-  const currentBlocks = getBlocksList(entry);
+  /**
+   * Hold the store lock while `run` reads and writes, so concurrent agents
+   * (or concurrent calls in one process) cannot overwrite each other.
+   */
+  private async locked<T>(run: () => Promise<T>): Promise<T> {
+    await mkdir(this.ezerDir, { recursive: true });
+    return withLock(this.lockFile, run, { onWarning: this.onWarning });
+  }
 
-  if (action === "remove") {
-    if (blocksId === null) {
-      delete entry.blocks;
-    } else {
-      const updated = currentBlocks.filter((blockId) => blockId !== blocksId);
-      if (updated.length === 0) {
-        delete entry.blocks;
+  /**
+   * Run a mutating operation under the store lock and record the entries it
+   * changed in the journal. Operations called from inside another one join
+   * the outer one, so `replaceNotes` is undone as a whole.
+   */
+  private async journaled<T>(op: string, run: () => Promise<T>): Promise<T> {
+    if (this.pending.getStore()) {
+      return run();
+    }
+    const pending = new Map<string, EntrySnapshot | null>();
+    return this.locked(() =>
+      this.pending.run(pending, async () => {
+        try {
+          return await run();
+        } finally {
+          // Record whatever was written, even if the operation failed halfway
+          await this.recordOperation(op, pending);
+        }
+      })
+    );
+  }
+
+  private async recordOperation(
+    op: string,
+    befores: Map<string, EntrySnapshot | null>
+  ): Promise<void> {
+    const changes = [];
+    for (const [id, before] of befores) {
+      const after = await this.readSnapshot(id);
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ id, before, after });
+      }
+    }
+    if (changes.length === 0) return;
+    await this.ignoreJournal();
+    await appendJournal(this.journalFile, { at: new Date().toISOString(), op, changes });
+  }
+
+  /** Keep the journal and the lock out of `ezer sync` commits. */
+  private async ignoreJournal(): Promise<void> {
+    const file = join(this.ezerDir, ".gitignore");
+    let text = "";
+    try {
+      text = await readFile(file, "utf-8");
+    } catch {
+      // Created below
+    }
+    const missing = ["journal.jsonl", "lock"].filter((line) => !text.split("\n").includes(line));
+    if (missing.length > 0) {
+      const separator = text.length > 0 && !text.endsWith("\n") ? "\n" : "";
+      await writeFileAtomic(file, `${text}${separator}${missing.join("\n")}\n`);
+    }
+  }
+
+  /**
+   * Run `run` under the store lock as one operation, recorded in the journal
+   * as `op`. Store methods called inside join it, so callers outside this
+   * class can read, decide and write without another agent changing entries
+   * in between, and `ezer undo` reverts the whole operation.
+   */
+  async runOperation<T>(op: string, run: () => Promise<T>): Promise<T> {
+    return this.journaled(op, run);
+  }
+
+  /**
+   * Run `run` as one journaled operation under the store lock, passing it a
+   * function that rewrites or renames memory files directly. Unlike the
+   * other methods this works on files that do not parse as entries, which
+   * is what `ezer doctor --fix` repairs.
+   */
+  async repairFiles<T>(
+    run: (repair: (file: FileRepair) => Promise<void>) => Promise<T>
+  ): Promise<T> {
+    return this.journaled("repairFiles", () =>
+      run(async ({ id, text, renameTo }) => {
+        await this.captureBefore(id);
+        if (text !== undefined) {
+          await writeFileAtomic(this.entryPath(id), text);
+        }
+        if (renameTo !== undefined) {
+          await this.captureBefore(renameTo);
+          await rename(this.entryPath(id), this.entryPath(renameTo));
+        }
+      })
+    );
+  }
+
+  /** Recorded operations, oldest first. */
+  async listJournal(): Promise<JournalOperation[]> {
+    return readJournal(this.journalFile, this.onWarning);
+  }
+
+  /**
+   * Revert the last `steps` operations, newest first, putting every entry
+   * back exactly as it was (IDs, timestamps and archive location included)
+   * and removing them from the journal.
+   * Throws CONFLICT if an entry changed since, for example by a git pull,
+   * unless `force` is set.
+   */
+  async undo(
+    steps = 1,
+    options: { force?: boolean | undefined } = {}
+  ): Promise<JournalOperation[]> {
+    return this.locked(() => this.undoLocked(steps, options.force === true));
+  }
+
+  private async undoLocked(steps: number, force: boolean): Promise<JournalOperation[]> {
+    const operations = await this.listJournal();
+    if (operations.length === 0) {
+      throw new EzerError("NOT_FOUND", "Nothing to undo");
+    }
+    const undone = operations.slice(-steps).reverse();
+
+    // Replay backwards in memory first, so a conflict leaves everything untouched
+    const state = new Map<string, EntrySnapshot | null>();
+    for (const operation of undone) {
+      for (const change of operation.changes) {
+        const current = state.has(change.id)
+          ? state.get(change.id)!
+          : await this.readSnapshot(change.id);
+        if (!force && JSON.stringify(current) !== JSON.stringify(change.after)) {
+          throw new EzerError(
+            "CONFLICT",
+            `${change.id} changed after operation ${operation.seq} (${operation.op}). ` +
+              "Use --force to undo anyway."
+          );
+        }
+        state.set(change.id, change.before);
+      }
+    }
+
+    for (const [id, snapshot] of state) {
+      await this.writeSnapshot(id, snapshot);
+    }
+    await writeJournal(this.journalFile, operations.slice(0, -undone.length));
+    return undone;
+  }
+
+  private async ensureDir(): Promise<void> {
+    await mkdir(this.memoryDir, { recursive: true });
+  }
+
+  /**
+   * Effective settings (defaults, then the user config, then the project
+   * config) and where each one came from.
+   * Throws INVALID_CONFIG if either file has unknown keys or bad values.
+   */
+  async loadSettings(): Promise<LoadedSettings> {
+    return loadSettings({ project: this.configFile, user: this.userConfigFile });
+  }
+
+  async getSettings(): Promise<Settings> {
+    return (await this.loadSettings()).settings;
+  }
+
+  /**
+   * Change one setting in the project config, or in the user config with
+   * `scope: "user"`. The change is rolled back if it leaves the combined
+   * settings invalid (such as a soft limit above the hard limit).
+   */
+  async setSetting(
+    key: string,
+    value: unknown,
+    scope: "project" | "user" = "project"
+  ): Promise<void> {
+    const file = scope === "user" ? this.userConfigFile : this.configFile;
+    if (!file) {
+      throw new EzerError("INVALID_CONFIG", "No user config file is configured");
+    }
+    let previous: string | null = null;
+    try {
+      previous = await readFile(file, "utf-8");
+    } catch {
+      // Created by writeSetting
+    }
+    await writeSetting(file, key, value);
+    try {
+      await this.loadSettings();
+    } catch (error) {
+      if (previous === null) {
+        await rm(file, { force: true });
       } else {
-        entry.blocks = updated;
+        await writeFileAtomic(file, previous);
       }
+      throw error;
     }
-    await writeFile(filePath, serializeMemoryEntry(entry));
-    return entry;
   }
 
-  if (blocksId === null) {
-    delete entry.blocks;
-  } else {
-    // Verify the blocks ID exists and is a puzzle
-    const blocksFilePath = join(MEMORY_DIR, `${blocksId}.md`);
-    const blocksContent = await readFile(blocksFilePath, "utf-8");
-    const blocksEntry = parseMemoryFile(blocksId, blocksContent);
-    if (blocksEntry.type !== "puzzle") {
-      throw new Error(`${blocksId} is not a puzzle`);
+  /** The ID prefix for new entries, derived from the directory name on first use. */
+  async getOrCreatePrefix(): Promise<string> {
+    const { prefix } = await this.getSettings();
+    if (prefix) {
+      return prefix;
     }
+    const derived = derivePrefix(basename(this.root) || "ez");
+    await writeSetting(this.configFile, "prefix", derived);
+    return derived;
+  }
 
-    if (action === "set") {
-      entry.blocks = [blocksId];
-    } else {
-      const set = new Set(currentBlocks);
-      set.add(blocksId);
-      entry.blocks = Array.from(set);
+  /** Whether the `.ezer` directory exists under the root. */
+  async exists(): Promise<boolean> {
+    try {
+      return (await stat(this.ezerDir)).isDirectory();
+    } catch {
+      return false;
     }
   }
 
-  await writeFile(filePath, serializeMemoryEntry(entry));
-  return entry;
-}
+  /**
+   * Create the `.ezer` directory and its config.
+   * Returns false without touching anything if the store already exists.
+   * @param prefix - ID prefix; derived from the root directory name if omitted
+   */
+  async init(prefix?: string): Promise<boolean> {
+    if (await this.exists()) {
+      return false;
+    }
+    if (prefix !== undefined && !PREFIX_PATTERN.test(prefix)) {
+      throw new EzerError(
+        "INVALID_ARGUMENT",
+        `Invalid prefix "${prefix}": use at least 2 lowercase letters or digits`
+      );
+    }
+    await this.ensureDir();
+    const initialPrefix = prefix ?? derivePrefix(basename(this.root) || "ez");
+    await writeSetting(this.configFile, "prefix", initialPrefix);
+    return true;
+  }
 
-export async function listMemoryEntries(
-  type?: MemoryEntry["type"]
-): Promise<MemoryEntry[]> {
-  try {
-    const files = await readdir(MEMORY_DIR);
-    const entries: MemoryEntry[] = [];
+  /**
+   * A new random ID that no entry (archived ones included) uses yet. IDs
+   * get longer than `ids.randomLength` when that space is more than 1/1024
+   * taken, or when random picks keep colliding.
+   */
+  async generateId(): Promise<string> {
+    const prefix = await this.getOrCreatePrefix();
+    const taken = new Set(await this.listIds());
+    let length = (await this.getSettings())["ids.randomLength"];
+    while (length < MAX_ID_RANDOM_LENGTH && taken.size * 1024 > 32 ** length) {
+      length++;
+    }
+    for (let attempt = 1; attempt <= 100; attempt++) {
+      const id = `${prefix}-${generateRandomId(length)}`;
+      if (!taken.has(id)) {
+        return id;
+      }
+      if (attempt % 3 === 0 && length < MAX_ID_RANDOM_LENGTH) {
+        length++;
+      }
+    }
+    throw new EzerError("INTERNAL", "Could not find an unused ID");
+  }
+
+  /** IDs of every entry, archived ones included, sorted. */
+  async listIds(): Promise<string[]> {
+    const ids = new Set<string>();
+    for (const dir of [this.memoryDir, this.archiveDir]) {
+      let files: string[] = [];
+      try {
+        files = await readdir(dir);
+      } catch {
+        // Not created yet
+      }
+      for (const file of files) {
+        if (file.endsWith(".md")) ids.add(file.slice(0, -".md".length));
+      }
+    }
+    return [...ids].sort();
+  }
+
+  /**
+   * Resolve an ID as typed by a user, like git resolves abbreviated
+   * commits: a full ID, the ID without the project prefix, or any unique
+   * start of the random part (`ez-ab` or `ab` for `ez-abcde`).
+   * A well-formed full ID that matches nothing is returned unchanged, so
+   * callers report NOT_FOUND themselves (or look in git history).
+   * Throws AMBIGUOUS listing the candidates when several entries match.
+   */
+  async resolveId(input: string): Promise<string> {
+    const id = input.trim().toLowerCase();
+    if (!ID_INPUT_PATTERN.test(id)) {
+      throw new EzerError("INVALID_ID", `invalid id: ${input}`);
+    }
+    const ids = await this.listIds();
+    if (ids.includes(id)) {
+      return id;
+    }
+    const dash = id.lastIndexOf("-");
+    const prefix = dash === -1 ? null : id.slice(0, dash);
+    const start = randomPart(id);
+    const matches = ids.filter(
+      (candidate) =>
+        (prefix === null || candidate.startsWith(`${prefix}-`)) &&
+        randomPart(candidate).startsWith(start)
+    );
+    if (matches.length === 1) {
+      return matches[0]!;
+    }
+    if (matches.length > 1) {
+      const shown = await Promise.all(
+        matches.slice(0, 10).map(async (match) => {
+          const entry = await this.readMemoryEntry(match).catch(() => null);
+          if (!entry) return `  ${match}`;
+          const label = entry.title ?? entry.content.split("\n")[0]?.slice(0, 50) ?? "";
+          return `  ${match} [${entry.type}]: ${label}`;
+        })
+      );
+      const more = matches.length > 10 ? [`  and ${matches.length - 10} more`] : [];
+      throw new EzerError(
+        "AMBIGUOUS",
+        [`${input} matches ${matches.length} entries:`, ...shown, ...more].join("\n")
+      );
+    }
+    if (ID_PATTERN.test(id)) {
+      return id;
+    }
+    throw new EzerError("NOT_FOUND", `No entry matches ${input}`);
+  }
+
+  /**
+   * Read a single memory entry by ID, looking in the archive too.
+   * Throws a NOT_FOUND error if no such entry exists.
+   */
+  async readMemoryEntry(id: string): Promise<MemoryEntry> {
+    for (const path of [this.entryPath(id), this.archivedEntryPath(id)]) {
+      let content: string;
+      try {
+        content = await readFile(path, "utf-8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw error;
+      }
+      return parseMemoryFile(id, content);
+    }
+    throw new EzerError("NOT_FOUND", `${id} not found`);
+  }
+
+  private async getTotalNoteSize(): Promise<number> {
+    const entries = await this.listMemoryEntries("note");
+    return entries.reduce((sum, entry) => sum + getByteSize(entry.content), 0);
+  }
+
+  async createNote(content: string, options: CreateEntryOptions = {}): Promise<MemoryEntry> {
+    return this.journaled("createNote", async () => {
+      const tags = normalizeTags(options.tags);
+      const refs = normalizeRefs(options.refs);
+      const settings = await this.getSettings();
+      const softLimit = settings["notes.softLimit"];
+      const hardLimit = settings["notes.hardLimit"];
+      const currentTotal = await this.getTotalNoteSize();
+      const contentBytes = getByteSize(content);
+      const newTotal = currentTotal + contentBytes;
+
+      // Check hard limit
+      if (newTotal > hardLimit) {
+        throw new EzerError(
+          "NOTE_LIMIT_EXCEEDED",
+          `Cannot add note: total would be ${newTotal} bytes, exceeds hard limit of ${hardLimit} bytes`
+        );
+      }
+
+      await this.ensureDir();
+      const id = await this.generateId();
+      const created = new Date().toISOString();
+
+      const entry: MemoryEntry = {
+        id,
+        type: "note",
+        content,
+        created,
+      };
+      if (tags.length > 0) {
+        entry.tags = tags;
+      }
+      if (refs.length > 0) {
+        entry.refs = refs;
+      }
+
+      await this.saveEntry(entry);
+      await this.recordInSession("createdEntries", id);
+
+      // Warn if soft limit exceeded
+      if (newTotal > softLimit) {
+        this.onWarning(
+          `Warning: Total notes size (${newTotal} bytes) exceeds soft limit of ${softLimit} bytes`
+        );
+        this.onWarning(
+          `Hint: Use 'ezer note replace --ids id1,id2 --content "..."' to consolidate related notes`
+        );
+      }
+
+      return entry;
+    });
+  }
+
+  async createFeedback(content: string): Promise<MemoryEntry> {
+    return this.journaled("createFeedback", async () => {
+      await this.ensureDir();
+      const id = await this.generateId();
+      const created = new Date().toISOString();
+
+      const entry: MemoryEntry = {
+        id,
+        type: "feedback",
+        content,
+        created,
+      };
+
+      await this.saveEntry(entry);
+      return entry;
+    });
+  }
+
+  /**
+   * Create a puzzle.
+   * @param title - Puzzle title
+   * @param description - Optional description
+   * @param blocksId - If provided, this puzzle blocks the specified puzzle
+   * @param options - Tags, refs and priority
+   */
+  async createPuzzle(
+    title: string,
+    description?: string,
+    blocksId?: string,
+    options: CreateEntryOptions = {}
+  ): Promise<MemoryEntry> {
+    return this.journaled("createPuzzle", async () => {
+      const tags = normalizeTags(options.tags);
+      const refs = normalizeRefs(options.refs);
+      await this.ensureDir();
+      const id = await this.generateId();
+      const created = new Date().toISOString();
+
+      const entry: MemoryEntry = {
+        id,
+        type: "puzzle",
+        title,
+        content: description ?? "",
+        created,
+        status: "open",
+      };
+      if (options.priority) {
+        entry.priority = options.priority;
+      }
+      if (blocksId) {
+        entry.blocks = [blocksId];
+      }
+      if (tags.length > 0) {
+        entry.tags = tags;
+      }
+      if (refs.length > 0) {
+        entry.refs = refs;
+      }
+
+      await this.saveEntry(entry);
+      await this.recordInSession("createdEntries", id);
+      return entry;
+    });
+  }
+
+  /** Close or reopen a puzzle. Either one releases any claim on it. */
+  async updatePuzzleStatus(id: string, status: "open" | "closed"): Promise<MemoryEntry> {
+    return this.journaled("updatePuzzleStatus", async () => {
+      const entry = await this.readMemoryEntry(id);
+
+      if (entry.type !== "puzzle") {
+        throw new EzerError("WRONG_TYPE", `${id} is not a puzzle`);
+      }
+
+      entry.status = status;
+      delete entry.claimedBy;
+      delete entry.claimedAt;
+      delete entry.leaseUntil;
+      if (status === "closed") {
+        entry.closedAt = new Date().toISOString();
+      } else {
+        delete entry.closedAt;
+      }
+      await this.saveEntry(entry);
+      if (status === "closed") {
+        await this.recordInSession("closedPuzzles", id);
+      }
+      return entry;
+    });
+  }
+
+  /**
+   * Claim a puzzle for an agent until the lease runs out (default:
+   * the `puzzle.leaseHours` setting). Starting it again renews the lease.
+   * Throws CLAIMED if another agent holds an active claim, unless `force`.
+   */
+  async startPuzzle(id: string, options: StartPuzzleOptions): Promise<MemoryEntry> {
+    return this.journaled("startPuzzle", async () => {
+      const entry = await this.readMemoryEntry(id);
+
+      if (entry.type !== "puzzle") {
+        throw new EzerError("WRONG_TYPE", `${id} is not a puzzle`);
+      }
+      if (entry.status === "closed") {
+        throw new EzerError("INVALID_ARGUMENT", `${id} is closed. Reopen it first.`);
+      }
+      const now = new Date();
+      if (isClaimActive(entry, now) && entry.claimedBy !== options.by && !options.force) {
+        throw new EzerError(
+          "CLAIMED",
+          `${id} is in progress by ${entry.claimedBy} until ${entry.leaseUntil}. Use --force to take it over.`
+        );
+      }
+
+      const leaseMs =
+        options.leaseMs ?? (await this.getSettings())["puzzle.leaseHours"] * 60 * 60 * 1000;
+      entry.status = "in-progress";
+      entry.claimedBy = options.by;
+      entry.claimedAt = now.toISOString();
+      entry.leaseUntil = new Date(now.getTime() + leaseMs).toISOString();
+      await this.saveEntry(entry);
+      return entry;
+    });
+  }
+
+  /** Give up a claim, returning the puzzle to open. */
+  async releasePuzzle(id: string): Promise<MemoryEntry> {
+    return this.journaled("releasePuzzle", async () => {
+      const entry = await this.readMemoryEntry(id);
+
+      if (entry.type !== "puzzle") {
+        throw new EzerError("WRONG_TYPE", `${id} is not a puzzle`);
+      }
+      if (entry.status !== "in-progress") {
+        throw new EzerError("INVALID_ARGUMENT", `${id} is not in progress`);
+      }
+      return this.updatePuzzleStatus(id, "open");
+    });
+  }
+
+  /** Change a puzzle's title, description or refs. */
+  async updatePuzzle(id: string, options: UpdateEntryOptions): Promise<MemoryEntry> {
+    return this.journaled("updatePuzzle", async () => {
+      const entry = await this.readMemoryEntry(id);
+
+      if (entry.type !== "puzzle") {
+        throw new EzerError("WRONG_TYPE", `${id} is not a puzzle`);
+      }
 
+      if (options.title !== undefined) {
+        entry.title = options.title;
+      }
+      if (options.content !== undefined) {
+        entry.content = options.content;
+      }
+      setRefs(entry, options.refs);
+      await this.saveEntry(entry);
+      return entry;
+    });
+  }
+
+  async updatePuzzlePriority(id: string, priority: Priority): Promise<MemoryEntry> {
+    return this.journaled("updatePuzzlePriority", async () => {
+      const entry = await this.readMemoryEntry(id);
+
+      if (entry.type !== "puzzle") {
+        throw new EzerError("WRONG_TYPE", `${id} is not a puzzle`);
+      }
+
+      entry.priority = priority;
+      await this.saveEntry(entry);
+      return entry;
+    });
+  }
+
+  async updatePuzzleBlocks(
+    id: string,
+    blocksId: string | null,
+    action: "set" | "append" | "remove" = "set"
+  ): Promise<MemoryEntry> {
+    return this.journaled("updatePuzzleBlocks", async () => {
+      const entry = await this.readMemoryEntry(id);
+
+      if (entry.type !== "puzzle") {
+        throw new EzerError("WRONG_TYPE", `${id} is not a puzzle`);
+      }
+
+      const currentBlocks = getBlocksList(entry);
+
+      if (action === "remove") {
+        if (blocksId === null) {
+          delete entry.blocks;
+        } else {
+          const updated = currentBlocks.filter((blockId) => blockId !== blocksId);
+          if (updated.length === 0) {
+            delete entry.blocks;
+          } else {
+            entry.blocks = updated;
+          }
+        }
+        await this.saveEntry(entry);
+        return entry;
+      }
+
+      if (blocksId === null) {
+        delete entry.blocks;
+      } else {
+        // Verify the blocks ID exists and is a puzzle
+        const blocksEntry = await this.readMemoryEntry(blocksId);
+        if (blocksEntry.type !== "puzzle") {
+          throw new EzerError("WRONG_TYPE", `${blocksId} is not a puzzle`);
+        }
+
+        // Refuse links that would make the puzzle (transitively) block itself
+        const cyclePath =
+          blocksId === id
+            ? [id]
+            : findBlocksPath(
+                await this.listMemoryEntries("puzzle", { includeArchived: true }),
+                blocksId,
+                id
+              );
+        if (cyclePath) {
+          throw new EzerError(
+            "CYCLE",
+            `Cannot make ${id} block ${blocksId}: it would create a cycle ${[id, ...cyclePath].join(" → ")}`
+          );
+        }
+
+        if (action === "set") {
+          entry.blocks = [blocksId];
+        } else {
+          const set = new Set(currentBlocks);
+          set.add(blocksId);
+          entry.blocks = Array.from(set);
+        }
+      }
+
+      await this.saveEntry(entry);
+      return entry;
+    });
+  }
+
+  private async readEntriesIn(dir: string, type?: MemoryEntry["type"]): Promise<MemoryEntry[]> {
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch {
+      return [];
+    }
+
+    const entries: MemoryEntry[] = [];
     for (const file of files) {
       if (!file.endsWith(".md")) continue;
       const id = file.replace(/\.md$/, "");
-      const filePath = join(MEMORY_DIR, file);
-      const content = await readFile(filePath, "utf-8");
-      const entry = parseMemoryFile(id, content);
+      let entry: MemoryEntry;
+      try {
+        entry = parseMemoryFile(id, await readFile(join(dir, file), "utf-8"));
+      } catch (error) {
+        // One broken file must not hide every other entry
+        this.onWarning(
+          `Warning: Skipping ${file}: ${getErrorMessage(error)}. Run "ezer doctor" for details.`
+        );
+        continue;
+      }
       if (!type || entry.type === type) {
         entries.push(entry);
       }
     }
+    return entries;
+  }
+
+  /** The most recent session that was started and not ended, if any. */
+  async getActiveSession(): Promise<MemoryEntry | null> {
+    const sessions = await this.listMemoryEntries("session");
+    return sessions.find((session) => !session.endedAt) ?? null;
+  }
+
+  /**
+   * Start a session. Notes and puzzles created, and puzzles closed, until
+   * `endSession` are recorded on it. A session that was never ended is
+   * ended first.
+   */
+  async startSession(info: SessionInfo = {}): Promise<MemoryEntry> {
+    return this.journaled("startSession", async () => {
+      const active = await this.getActiveSession();
+      if (active) {
+        this.onWarning(`Warning: Ending session ${active.id}, which was never ended`);
+        await this.endSession();
+      }
+
+      await this.ensureDir();
+      const entry: MemoryEntry = {
+        id: await this.generateId(),
+        type: "session",
+        content: "",
+        created: new Date().toISOString(),
+      };
+      if (info.branch) entry.branch = info.branch;
+      if (info.head) entry.head = info.head;
+      await this.saveEntry(entry);
+      return entry;
+    });
+  }
+
+  /**
+   * End the active session, recording which puzzles are still in progress.
+   * Throws NOT_FOUND if no session is active.
+   */
+  async endSession(
+    info: SessionInfo & { summary?: string | undefined } = {}
+  ): Promise<MemoryEntry> {
+    return this.journaled("endSession", async () => {
+      const session = await this.getActiveSession();
+      if (!session) {
+        throw new EzerError("NOT_FOUND", 'No active session. Start one with "ezer session start"');
+      }
+
+      const puzzles = await this.listMemoryEntries("puzzle");
+      const inProgress = puzzles.filter((puzzle) => isClaimActive(puzzle)).map((p) => p.id);
+      session.endedAt = new Date().toISOString();
+      if (info.head) session.endHead = info.head;
+      if (inProgress.length > 0) session.inProgress = inProgress;
+      if (info.summary) session.content = info.summary;
+      await this.saveEntry(session);
+      return session;
+    });
+  }
+
+  private async recordInSession(
+    key: "createdEntries" | "closedPuzzles",
+    id: string
+  ): Promise<void> {
+    const session = await this.getActiveSession();
+    if (!session || session[key]?.includes(id)) return;
+    session[key] = [...(session[key] ?? []), id];
+    await this.saveEntry(session);
+  }
+
+  /**
+   * List entries, newest first. Archived entries are left out unless
+   * `includeArchived` is set.
+   */
+  async listMemoryEntries(
+    type?: MemoryEntry["type"],
+    options: ListEntriesOptions = {}
+  ): Promise<MemoryEntry[]> {
+    const entries = await this.readEntriesIn(this.memoryDir, type);
+    if (options.includeArchived) {
+      entries.push(...(await this.readEntriesIn(this.archiveDir, type)));
+    }
 
     // Sort by created date, newest first
     entries.sort(
       (a, b) => new Date(b.created).getTime() - new Date(a.created).getTime()
     );
     return entries;
-  } catch {
-    return [];
   }
-}
 
-export async function updateNote(
-  id: string,
-  content: string
-): Promise<MemoryEntry> {
-  const filePath = join(MEMORY_DIR, `${id}.md`);
-  const fileContent = await readFile(filePath, "utf-8");
-  const entry = parseMemoryFile(id, fileContent);
+  async updateNote(
+    id: string,
+    content: string | undefined,
+    options: Omit<UpdateEntryOptions, "title" | "content"> = {}
+  ): Promise<MemoryEntry> {
+    return this.journaled("updateNote", async () => {
+      const entry = await this.readMemoryEntry(id);
 
-  if (entry.type !== "note") {
-    throw new Error(`${id} is not a note`);
-  }
+      if (entry.type !== "note") {
+        throw new EzerError("WRONG_TYPE", `${id} is not a note`);
+      }
 
-  entry.content = content;
-  await writeFile(filePath, serializeMemoryEntry(entry));
-  return entry;
-}
+      if (content !== undefined) {
+        entry.content = content;
+      }
+      setRefs(entry, options.refs);
+      await this.saveEntry(entry);
+      return entry;
+    });
+  }
 
-export async function deleteNote(id: string): Promise<void> {
-  const filePath = join(MEMORY_DIR, `${id}.md`);
-  const fileContent = await readFile(filePath, "utf-8");
-  const entry = parseMemoryFile(id, fileContent);
+  /**
+   * Write an earlier version of an entry (such as one read from git history)
+   * back to the store, recreating it if it was deleted.
+   */
+  async restoreEntry(entry: MemoryEntry): Promise<MemoryEntry> {
+    return this.journaled("restoreEntry", async () => {
+      await this.ensureDir();
+      await this.saveEntry(entry);
+      return entry;
+    });
+  }
 
-  if (!["note", "puzzle"].includes(entry.type)) {
-    throw new Error(`${id} is not a note or puzzle`);
+  /** Restore several entries as one operation, so one `undo` reverts them all. */
+  async restoreEntries(entries: MemoryEntry[]): Promise<void> {
+    return this.journaled("restoreEntries", async () => {
+      for (const entry of entries) {
+        await this.restoreEntry(entry);
+      }
+    });
   }
 
-  await unlink(filePath);
-}
+  async deleteNote(id: string): Promise<void> {
+    return this.journaled("deleteNote", async () => {
+      const entry = await this.readMemoryEntry(id);
 
-export async function replaceNotes(
-  ids: string[],
-  content: string
-): Promise<MemoryEntry> {
-  // Validate all IDs are notes
-  for (const id of ids) {
-    const filePath = join(MEMORY_DIR, `${id}.md`);
-    const fileContent = await readFile(filePath, "utf-8");
-    const entry = parseMemoryFile(id, fileContent);
-    if (entry.type !== "note") {
-      throw new Error(`${id} is not a note`);
-    }
-  }
+      if (!["note", "puzzle"].includes(entry.type)) {
+        throw new EzerError("WRONG_TYPE", `${id} is not a note or puzzle`);
+      }
 
-  // Delete old notes
-  for (const id of ids) {
-    const filePath = join(MEMORY_DIR, `${id}.md`);
-    await unlink(filePath);
+      await this.removeEntry(id);
+    });
   }
 
-  // Create new consolidated note
-  return createNote(content);
-}
+  async replaceNotes(ids: string[], content: string): Promise<MemoryEntry> {
+    return this.journaled("replaceNotes", async () => {
+      // Validate all IDs are notes
+      for (const id of ids) {
+        const entry = await this.readMemoryEntry(id);
+        if (entry.type !== "note") {
+          throw new EzerError("WRONG_TYPE", `${id} is not a note`);
+        }
+      }
 
-export async function clearFeedback(): Promise<number> {
-  const entries = await listMemoryEntries("feedback");
-  if (entries.length === 0) {
-    return 0;
+      // Delete old notes
+      for (const id of ids) {
+        await this.removeEntry(id);
+      }
+
+      // Create new consolidated note
+      return this.createNote(content);
+    });
   }
-  for (const entry of entries) {
-    const filePath = join(MEMORY_DIR, `${entry.id}.md`);
-    await unlink(filePath);
+
+  /** Add tags to any entry. Tags it already has are left as they are. */
+  async addTags(id: string, tags: string[]): Promise<MemoryEntry> {
+    return this.journaled("addTags", async () => {
+      const entry = await this.readMemoryEntry(id);
+      const merged = normalizeTags([...(entry.tags ?? []), ...tags]);
+      if (merged.length > 0) {
+        entry.tags = merged;
+      }
+      await this.saveEntry(entry);
+      return entry;
+    });
   }
-  return entries.length;
-}
 
-export async function getPuzzleTree(rootId: string): Promise<string[]> {
-  const entries = await listMemoryEntries("puzzle");
-  const idMap = new Map<string, MemoryEntry>();
-  for (const entry of entries) {
-    idMap.set(entry.id, entry);
-  }
-
-  // Find all puzzles that block the given puzzle (ancestors)
-  const ancestors: string[] = [];
-  let current = rootId;
-  while (current) {
-    const puzzle = idMap.get(current);
-    if (!puzzle || puzzle.type !== "puzzle") break;
-    const [primaryBlock] = getBlocksList(puzzle);
-    if (primaryBlock) {
-      ancestors.unshift(primaryBlock);
-      current = primaryBlock;
-    } else {
-      break;
-    }
+  async removeTags(id: string, tags: string[]): Promise<MemoryEntry> {
+    return this.journaled("removeTags", async () => {
+      const entry = await this.readMemoryEntry(id);
+      const removed = normalizeTags(tags);
+      const remaining = (entry.tags ?? []).filter((tag) => !removed.includes(tag));
+      if (remaining.length > 0) {
+        entry.tags = remaining;
+      } else {
+        delete entry.tags;
+      }
+      await this.saveEntry(entry);
+      return entry;
+    });
   }
 
-  // Find all puzzles that are blocked by the given puzzle (descendants)
-  const descendants: string[] = [];
-  function findDescendants(puzzleId: string): void {
-    for (const [id, puzzle] of idMap) {
-      if (getBlocksList(puzzle).includes(puzzleId)) {
-        descendants.push(id);
-        findDescendants(id);
+  /** Count how many entries carry each tag, most used first. */
+  async listTags(): Promise<Array<{ tag: string; count: number }>> {
+    const counts = new Map<string, number>();
+    for (const entry of await this.listMemoryEntries()) {
+      for (const tag of entry.tags ?? []) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
       }
     }
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+      (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+    );
   }
-  findDescendants(rootId);
 
-  return [...ancestors, rootId, ...descendants];
-}
+  async clearFeedback(): Promise<number> {
+    return this.journaled("clearFeedback", async () => {
+      const entries = await this.listMemoryEntries("feedback");
+      if (entries.length === 0) {
+        return 0;
+      }
+      for (const entry of entries) {
+        await this.removeEntry(entry.id);
+      }
+      return entries.length;
+    });
+  }
 
-export async function renderPuzzleTree(rootId: string): Promise<string> {
-  const entries = await listMemoryEntries("puzzle");
-  const idMap = new Map<string, MemoryEntry>();
-  for (const entry of entries) {
-    idMap.set(entry.id, entry);
-  }
-
-  const lines: string[] = [];
-
-  // Find ancestors
-  const ancestors: Array<{ id: string; puzzle: MemoryEntry }> = [];
-  let current = rootId;
-  while (current) {
-    const puzzle = idMap.get(current);
-    if (!puzzle || puzzle.type !== "puzzle") break;
-    ancestors.unshift({ id: current, puzzle });
-    const [primaryBlock] = getBlocksList(puzzle);
-    if (primaryBlock) {
-      current = primaryBlock;
-    } else {
-      break;
-    }
+  /**
+   * Move puzzles closed before `cutoff` into the archive, so everyday
+   * listings no longer read them. They can still be read by ID, and
+   * `blocks` references to them keep resolving. Puzzles are the only
+   * entries archived; notes replaced by `replaceNotes` are deleted instead.
+   * With `dryRun`, only report what would be moved.
+   */
+  async archiveClosedPuzzles(
+    cutoff: Date,
+    options: { dryRun?: boolean | undefined } = {}
+  ): Promise<MemoryEntry[]> {
+    return this.journaled("archiveClosedPuzzles", async () => {
+      const puzzles = (await this.listMemoryEntries("puzzle")).filter(
+        (puzzle) =>
+          puzzle.status === "closed" &&
+          new Date(puzzle.closedAt ?? puzzle.created).getTime() < cutoff.getTime()
+      );
+      if (options.dryRun || puzzles.length === 0) {
+        return puzzles;
+      }
+      await mkdir(this.archiveDir, { recursive: true });
+      for (const puzzle of puzzles) {
+        await this.captureBefore(puzzle.id);
+        await rename(this.entryPath(puzzle.id), this.archivedEntryPath(puzzle.id));
+      }
+      return puzzles;
+    });
   }
 
-  // Find descendants
-  function findDescendants(
-    puzzleId: string,
-    depth: number
-  ): Array<{ id: string; puzzle: MemoryEntry; depth: number }> {
-    const result: Array<{ id: string; puzzle: MemoryEntry; depth: number }> = [];
-    for (const [id, puzzle] of idMap) {
-      if (getBlocksList(puzzle).includes(puzzleId)) {
-        result.push({ id, puzzle, depth });
-        result.push(...findDescendants(id, depth + 1));
+  /**
+   * IDs around a puzzle: everything it blocks (farthest first), the puzzle
+   * itself, then everything that blocks it, following every `blocks` link.
+   */
+  async getPuzzleTree(rootId: string, options: PuzzleTreeOptions = {}): Promise<string[]> {
+    const graph = await this.loadPuzzleGraph(options);
+    // Visited sets keep cycles that already exist on disk from looping forever.
+    const walk = (next: (id: string) => MemoryEntry[]): string[] => {
+      const found: string[] = [];
+      const seen = new Set<string>([rootId]);
+      const queue = [rootId];
+      while (queue.length > 0) {
+        for (const puzzle of next(queue.shift()!)) {
+          if (seen.has(puzzle.id)) continue;
+          seen.add(puzzle.id);
+          found.push(puzzle.id);
+          queue.push(puzzle.id);
+        }
       }
-    }
-    return result;
+      return found;
+    };
+    return [...walk(graph.parentsOf).reverse(), rootId, ...walk(graph.blockersOf)];
   }
 
-  const descendants = findDescendants(rootId, 1);
+  /**
+   * Render the puzzles a puzzle blocks (`↑`, above it) and the puzzles that
+   * block it (`→`, below it) with their state. Every parent is followed. A
+   * puzzle reached again is marked `(see above)` instead of being expanded
+   * twice, and one already on the current path is a cycle (e.g. from a git
+   * merge), marked `↻`.
+   */
+  async renderPuzzleTree(rootId: string, options: PuzzleTreeOptions = {}): Promise<string> {
+    const graph = await this.loadPuzzleGraph(options);
+    const root = graph.byId.get(rootId);
+    if (!root) {
+      return `Puzzle ${rootId} not found`;
+    }
 
-  // Render ancestors
-  for (const { id, puzzle } of ancestors) {
-    if (id === rootId) continue;
-    lines.push(`  ${id}: ${puzzle.title}`);
-  }
+    const label = (puzzle: MemoryEntry): string => {
+      const state = graph.states.get(puzzle.id)?.state ?? "ready";
+      const open = graph.countOpenBlockers(puzzle.id);
+      const blockers = open > 0 ? ` (${open} open ${open === 1 ? "blocker" : "blockers"})` : "";
+      return `${puzzle.id}: ${puzzle.title} [${state}]${blockers}`;
+    };
+
+    const lines: string[] = [];
+    const expanded = new Set<string>([rootId]);
+    function renderBranch(
+      id: string,
+      depth: number,
+      path: Set<string>,
+      next: (id: string) => MemoryEntry[],
+      marker: string
+    ): void {
+      const indent = "  ".repeat(depth);
+      for (const puzzle of next(id)) {
+        if (path.has(puzzle.id)) {
+          lines.push(`${indent}↻ ${puzzle.id}: ${puzzle.title} (cycle)`);
+        } else if (expanded.has(puzzle.id)) {
+          lines.push(`${indent}${marker} ${label(puzzle)} (see above)`);
+        } else {
+          expanded.add(puzzle.id);
+          lines.push(`${indent}${marker} ${label(puzzle)}`);
+          renderBranch(puzzle.id, depth + 1, new Set([...path, puzzle.id]), next, marker);
+        }
+      }
+    }
 
-  // Render root
-  const root = idMap.get(rootId);
-  if (!root) {
-    return `Puzzle ${rootId} not found`;
+    renderBranch(rootId, 0, new Set([rootId]), graph.parentsOf, "↑");
+    lines.push(`→ ${label(root)}`);
+    renderBranch(rootId, 1, new Set([rootId]), graph.blockersOf, "→");
+    return lines.join("\n");
   }
-  lines.push(`→ ${rootId}: ${root.title}`);
 
-  // Render descendants
-  for (const { id, puzzle, depth } of descendants) {
-    const indent = "  ".repeat(depth);
-    lines.push(`${indent}→ ${id}: ${puzzle.title}`);
+  /** Puzzles (archived ones included) with lookups for walking `blocks` links. */
+  private async loadPuzzleGraph(options: PuzzleTreeOptions) {
+    const puzzles = await this.listMemoryEntries("puzzle", { includeArchived: true });
+    const byId = new Map(puzzles.map((puzzle) => [puzzle.id, puzzle]));
+    const states = getPuzzleStates(puzzles);
+    const isShown = (puzzle: MemoryEntry) =>
+      options.includeClosed !== false || puzzle.status !== "closed";
+
+    return {
+      byId,
+      states,
+      /** Puzzles this one blocks. */
+      parentsOf: (id: string): MemoryEntry[] =>
+        getBlocksList(byId.get(id) ?? {})
+          .map((parentId) => byId.get(parentId))
+          .filter((puzzle): puzzle is MemoryEntry => puzzle !== undefined && isShown(puzzle)),
+      /** Puzzles that block this one. */
+      blockersOf: (id: string): MemoryEntry[] =>
+        puzzles.filter((puzzle) => getBlocksList(puzzle).includes(id) && isShown(puzzle)),
+      /** Open puzzles that block this one, directly or transitively. */
+      countOpenBlockers: (id: string): number => {
+        const seen = new Set<string>([id]);
+        const stack = [id];
+        let open = 0;
+        while (stack.length > 0) {
+          const current = stack.pop()!;
+          for (const puzzle of puzzles) {
+            if (seen.has(puzzle.id) || !getBlocksList(puzzle).includes(current)) continue;
+            seen.add(puzzle.id);
+            stack.push(puzzle.id);
+            if (puzzle.status !== "closed") open++;
+          }
+        }
+        return open;
+      },
+    };
   }
-
-  return lines.join("\n");
 }
@@ -0,0 +1,224 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseYAML, stringifyYAML } from "confbox";
+import { EzerError } from "./errors.ts";
+import { runGit } from "./git.ts";
+
+/** The `.gitattributes` line that routes memory files through the driver. */
+export const MERGE_ATTRIBUTE = ".ezer/memory/*.md merge=ezer";
+const DRIVER_COMMAND = "ezer merge-driver %O %A %B";
+
+export interface MergeResult {
+  text: string;
+  /** Whether conflict markers were left in `text`. */
+  conflict: boolean;
+}
+
+interface SplitFile {
+  frontMatter: Record<string, unknown>;
+  body: string;
+}
+
+function splitFile(text: string): SplitFile | null {
+  const match = text.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    const frontMatter = parseYAML(match[1] ?? "");
+    if (typeof frontMatter !== "object" || frontMatter === null || Array.isArray(frontMatter)) {
+      return null;
+    }
+    return { frontMatter: frontMatter as Record<string, unknown>, body: match[2] ?? "" };
+  } catch {
+    return null;
+  }
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function toStringList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return list.map(String);
+}
+
+/**
+ * Merge list fields as sets: additions from either side are kept, and an
+ * item is dropped if either side removed it.
+ */
+function mergeSet(base: unknown, ours: unknown, theirs: unknown): string[] | undefined {
+  const baseList = toStringList(base);
+  const ourList = toStringList(ours);
+  const theirList = toStringList(theirs);
+  const removed = baseList.filter((id) => !ourList.includes(id) || !theirList.includes(id));
+  const merged = [...ourList, ...theirList.filter((id) => !ourList.includes(id))].filter(
+    (id) => !removed.includes(id)
+  );
+  return merged.length > 0 ? merged : undefined;
+}
+
+type ThreeWay = { ok: true; value: unknown } | { ok: false };
+
+function mergeValue(base: unknown, ours: unknown, theirs: unknown): ThreeWay {
+  if (same(ours, theirs) || same(base, theirs)) return { ok: true, value: ours };
+  if (same(base, ours)) return { ok: true, value: theirs };
+  return { ok: false };
+}
+
+/** Fields that change together with `status`: the close time and any claim. */
+const STATUS_KEYS = ["status", "closedAt", "claimedBy", "claimedAt", "leaseUntil"];
+
+/**
+ * `status` and its related fields change together. When both sides changed
+ * them, the side that closed the puzzle most recently wins (ours, if neither
+ * closed it, e.g. when both claimed it).
+ */
+function pickStatusSide(
+  base: Record<string, unknown>,
+  ours: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): Record<string, unknown> {
+  const pick = (side: Record<string, unknown>) => STATUS_KEYS.map((key) => side[key]);
+  const merged = mergeValue(pick(base), pick(ours), pick(theirs));
+  if (merged.ok) {
+    return same(merged.value, pick(ours)) ? ours : theirs;
+  }
+  const closedAt = (side: Record<string, unknown>) =>
+    side["closedAt"] === undefined ? 0 : new Date(String(side["closedAt"])).getTime() || 0;
+  return closedAt(theirs) > closedAt(ours) ? theirs : ours;
+}
+
+function conflictBlock(key: string, ours: unknown, theirs: unknown): string {
+  const side = (value: unknown) =>
+    value === undefined ? [] : [stringifyYAML({ [key]: value }).trimEnd()];
+  return [
+    "<<<<<<< ours",
+    ...side(ours),
+    "=======",
+    ...side(theirs),
+    ">>>>>>> theirs",
+  ].join("\n");
+}
+
+/** Line-based three-way merge via `git merge-file`. */
+async function mergeText(base: string, ours: string, theirs: string): Promise<MergeResult> {
+  const merged = mergeValue(base, ours, theirs);
+  if (merged.ok) {
+    return { text: merged.value as string, conflict: false };
+  }
+  const dir = await mkdtemp(join(tmpdir(), "ezer-merge-"));
+  try {
+    const paths = ["ours", "base", "theirs"].map((name) => join(dir, name));
+    await Promise.all(
+      [ours, base, theirs].map((text, index) => writeFile(paths[index]!, text, "utf-8"))
+    );
+    const result = await runGit(dir, [
+      "merge-file",
+      "-p",
+      "-L",
+      "ours",
+      "-L",
+      "base",
+      "-L",
+      "theirs",
+      ...paths,
+    ]);
+    // The exit code is the number of conflicts; errors are reported above 127
+    if (result.exitCode > 127) {
+      throw new EzerError("GIT_ERROR", `git merge-file failed: ${result.stderr.trim()}`);
+    }
+    return { text: result.stdout, conflict: result.exitCode > 0 };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Three-way merge of a memory file.
+ *
+ * Frontmatter is merged field by field: `blocks`, `tags` and `refs` as sets,
+ * `status` with its close time and claim by the latest close, and other
+ * fields by the usual three-way rule, with conflict markers only around
+ * fields both sides changed differently. Bodies are merged line by line.
+ */
+export async function mergeMemoryFile(
+  base: string,
+  ours: string,
+  theirs: string
+): Promise<MergeResult> {
+  const ourFile = splitFile(ours);
+  const theirFile = splitFile(theirs);
+  if (!ourFile || !theirFile) {
+    return mergeText(base, ours, theirs);
+  }
+  // An empty or unreadable base (e.g. both sides added the file) merges as empty
+  const baseFile = splitFile(base) ?? { frontMatter: {}, body: "" };
+
+  const b = baseFile.frontMatter;
+  const o = ourFile.frontMatter;
+  const t = theirFile.frontMatter;
+  const statusSide = pickStatusSide(b, o, t);
+  const keys = [...new Set([...Object.keys(o), ...Object.keys(t), ...Object.keys(b)])];
+
+  const frontMatter: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  for (const key of keys) {
+    let value: unknown;
+    if (key === "blocks" || key === "tags" || key === "refs") {
+      value = mergeSet(b[key], o[key], t[key]);
+    } else if (STATUS_KEYS.includes(key)) {
+      value = statusSide[key];
+    } else {
+      const merged = mergeValue(b[key], o[key], t[key]);
+      if (!merged.ok) {
+        conflicts.push(conflictBlock(key, o[key], t[key]));
+        continue;
+      }
+      value = merged.value;
+    }
+    if (value !== undefined) {
+      frontMatter[key] = value;
+    }
+  }
+
+  const body = await mergeText(baseFile.body, ourFile.body, theirFile.body);
+  const yaml = [stringifyYAML(frontMatter).trimEnd(), ...conflicts].join("\n");
+  return {
+    text: `---\n${yaml}\n---\n${body.text}`,
+    conflict: conflicts.length > 0 || body.conflict,
+  };
+}
+
+/**
+ * Register the merge driver in the repository's git config and route
+ * `.ezer/memory` files through it in `<root>/.gitattributes`.
+ */
+export async function installMergeDriver(
+  root: string
+): Promise<{ gitattributes: string; added: boolean }> {
+  const settings: Array<[string, string]> = [
+    ["merge.ezer.name", "ezer memory entries"],
+    ["merge.ezer.driver", DRIVER_COMMAND],
+  ];
+  for (const [key, value] of settings) {
+    const result = await runGit(root, ["config", key, value]);
+    if (result.exitCode !== 0) {
+      throw new EzerError("GIT_ERROR", `git config failed: ${result.stderr.trim()}`);
+    }
+  }
+
+  const gitattributes = join(root, ".gitattributes");
+  let existing = "";
+  try {
+    existing = await readFile(gitattributes, "utf-8");
+  } catch {
+    // No .gitattributes yet
+  }
+  if (existing.split("\n").some((line) => line.trim() === MERGE_ATTRIBUTE)) {
+    return { gitattributes, added: false };
+  }
+  const separator = existing.length > 0 && !existing.endsWith("\n") ? "\n" : "";
+  await writeFile(gitattributes, `${existing}${separator}${MERGE_ATTRIBUTE}\n`, "utf-8");
+  return { gitattributes, added: true };
+}
@@ -0,0 +1,311 @@
+import { readFile } from "node:fs/promises";
+import { EzerError } from "./errors.ts";
+import { getPuzzleStates, hasTags, type EzerStore, type MemoryEntry } from "./memory.ts";
+import { getLastSession, renderSessionSummary } from "./session.ts";
+
+/** Render tags as a ` #a #b` suffix for one-line listings. */
+export function formatTagSuffix(entry: Pick<MemoryEntry, "tags">): string {
+  return entry.tags?.length ? ` ${entry.tags.map((tag) => `#${tag}`).join(" ")}` : "";
+}
+
+/** Who holds a claim on an in-progress puzzle, and until when. */
+export function formatClaim(puzzle: Pick<MemoryEntry, "claimedBy" | "leaseUntil">): string {
+  return `by ${puzzle.claimedBy ?? "unknown"} until ${puzzle.leaseUntil ?? "released"}`;
+}
+
+export function formatNoteOpenTag(note: MemoryEntry): string {
+  const tags = note.tags?.length ? ` tags="${note.tags.join(",")}"` : "";
+  const refs = note.refs?.length ? ` refs="${note.refs.join(",")}"` : "";
+  return `<note id="${note.id}"${tags}${refs}>`;
+}
+
+function formatOpenPuzzleLines(puzzles: MemoryEntry[]): string[] {
+  return puzzles.map((puzzle) => {
+    const blocksInfo =
+      puzzle.blocks && puzzle.blocks.length > 0 ? ` (blocks ${puzzle.blocks.join(", ")})` : "";
+    return `- ${puzzle.id}: ${puzzle.title}${blocksInfo}${formatTagSuffix(puzzle)}`;
+  });
+}
+
+function formatNoteLines(notes: MemoryEntry[]): string[] {
+  return notes.flatMap((note) => [formatNoteOpenTag(note), note.content, "</note>"]);
+}
+
+async function renderLastSession(store: EzerStore): Promise<string | null> {
+  const session = await getLastSession(store);
+  return session ? renderSessionSummary(store, session) : null;
+}
+
+export async function renderState(
+  store: EzerStore,
+  filter: { tags?: string[] } = {}
+): Promise<string> {
+  const allEntries = (await store.listMemoryEntries()).filter((e) => e.type !== "session");
+
+  if (allEntries.length === 0) {
+    return "No memory entries yet.";
+  }
+
+  const tags = filter.tags ?? [];
+  const entries = allEntries.filter((entry) => hasTags(entry, tags));
+  if (entries.length === 0) {
+    return `No memory entries tagged ${tags.map((tag) => `#${tag}`).join(" ")}.`;
+  }
+
+  const notes = entries.filter((e) => e.type === "note");
+  const puzzles = entries.filter((e) => e.type === "puzzle");
+  const states = getPuzzleStates(allEntries.filter((e) => e.type === "puzzle"));
+  const inProgress = puzzles.filter((p) => states.get(p.id)?.state === "in-progress");
+  const openPuzzles = puzzles.filter(
+    (p) => p.status !== "closed" && states.get(p.id)?.state !== "in-progress"
+  );
+  const { "status.showClosed": showClosed } = await store.getSettings();
+  const closedPuzzles = showClosed ? puzzles.filter((p) => p.status === "closed") : [];
+
+  const lines: string[] = [];
+
+  if (tags.length === 0) {
+    const lastSession = await renderLastSession(store);
+    if (lastSession) lines.push("### Last Session", lastSession);
+  }
+
+  if (inProgress.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push("### In Progress");
+    for (const puzzle of inProgress) {
+      const claim = formatClaim(puzzle);
+      lines.push(`- ${puzzle.id}: ${puzzle.title} (${claim})${formatTagSuffix(puzzle)}`);
+    }
+  }
+
+  if (openPuzzles.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push("### Open Puzzles");
+    lines.push(...formatOpenPuzzleLines(openPuzzles));
+  }
+
+  if (closedPuzzles.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push("### Closed Puzzles");
+    for (const puzzle of closedPuzzles) {
+      lines.push(`- ${puzzle.id}: ${puzzle.title}${formatTagSuffix(puzzle)}`);
+    }
+  }
+
+  if (notes.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push("### Notes");
+    lines.push(...formatNoteLines(notes));
+  }
+
+  return lines.join("\n");
+}
+
+/** The command reference shown by `{{commands}}`. */
+const COMMANDS_TEXT = `### Notes
+Record decisions, discoveries, or context for future sessions.
+
+  ezer note create --content "..."              # create note
+  ezer note update --id ez-xxxxx --content "..."  # update note
+  ezer note delete --id ez-xxxxx                # delete entry
+  ezer note replace --ids ez-a,ez-b --content "..."  # replace many with one
+  ezer note list                                # list all notes
+  ezer undo [--steps N]                         # revert mistakes (see ezer journal)
+  ezer note create --tag auth --content "..."   # tag entries (also on puzzle create)
+  ezer note list --tag auth                     # filter by tag (also puzzle list, status)
+  ezer note create --ref src/app.ts:10-40 --content "..."  # point at code (also puzzles)
+  ezer about src/app.ts                         # notes and puzzles about a file or directory
+  ezer tag add --id ez-xxxxx --tag auth         # tag an existing entry
+  ezer tags                                     # list tags with counts
+  cat <<'EOF' | ezer note create                # read note content from stdin
+  ... multi-line note content ...
+  EOF
+
+  Good notes: decisions made, patterns discovered, important file locations.
+
+### Puzzles
+Mark unknowns you can't resolve now. Don't get stuck - note it and move on.
+
+  ezer puzzle create --title "..."                  # create puzzle
+  ezer puzzle link --id ez-a --blocks ez-b         # make ez-a block ez-b
+  ezer puzzle unlink --id ez-a --blocks ez-b       # remove ez-a blocking ez-b
+  ezer puzzle start --id ez-xxxxx --by <agent>  # claim it so parallel agents skip it
+  ezer puzzle stop --id ez-xxxxx                # release a claim without closing
+  ezer puzzle close --id ez-xxxxx               # mark resolved
+  ezer puzzle reopen --id ez-xxxxx              # reopen puzzle
+  ezer puzzle delete --id ez-xxxxx              # delete puzzle
+  ezer puzzle update --id ez-xxxxx --title "..." [--ref path]  # edit title, description, refs
+  ezer puzzle next                              # best ready puzzle to work on
+  ezer puzzle prioritize --id ez-xxxxx --priority p1  # p0 (urgent) to p3
+  ezer puzzle list                              # list ready puzzles (default)
+  ezer puzzle list --ready                      # puzzles with deps resolved, best first
+  ezer puzzle list --blocked                    # puzzles with open deps
+  ezer puzzle list --in-progress                # claimed puzzles and who holds them
+  ezer puzzle list --closed                     # closed puzzles (by closed time)
+  ezer puzzle tree --id ez-xxxxx [--no-closed]  # show dependency tree
+  ezer puzzle graph [--id ez-xxxxx] --format mermaid|dot  # draw the blocks graph
+  ezer puzzle describe --ids ez-a,ez-b          # show puzzle details in XML
+
+  Dependency Pattern Example:
+  Create a main task:       ezer puzzle create --title "Deploy to prod"
+  Create a blocker:         ezer puzzle create --title "Add tests"
+  Link blocker to main:     ezer puzzle link --id <test-id> --blocks <main-id>
+  Link multiple blockers:   ezer puzzle link --id <setup-id> --blocks <qa-id> && ezer puzzle link --id <setup-id> --blocks <deploy-id>
+  View dependency tree:     ezer puzzle tree --id <main-id>
+  Work on blockers first, then close them to unblock dependent tasks.
+
+### Memory Management
+When notes accumulate, consolidate related ones:
+
+  ezer note replace --ids ez-a,ez-b --content "combined insight"
+
+### Feedback
+Help improve ezer:
+
+  ezer feedback create --content "..."          # suggest improvements
+
+### Other
+  ezer init                                     # create .ezer/ (only once per project)
+  ezer status                                   # show state without instructions
+  ezer search "query" [--type puzzle --status closed]  # find past notes/solutions
+  ezer tui                                      # browse and edit entries full-screen (humans)
+  ezer <command> --json                         # machine-readable output
+  ezer puzzle close --id ab                     # any unique start of an ID works
+  ezer mcp                                      # serve tools over MCP (stdio)
+  ezer doctor [--fix] [--refs]                  # check memory files (and referenced files)
+  ezer archive [--older-than 30d]               # move old closed puzzles out of listings
+  ezer log [--id <id>]                          # history of entries from git
+  ezer show --id <id> [--at <rev> [--restore]]  # view (or restore) a past version
+  ezer sync [--no-push]                         # commit .ezer/ changes, pull --rebase, push
+  ezer session start                            # mark the start of a working session
+  ezer session end [--summary "..."]            # end it and record what it did
+  ezer session show [--last]                    # what the current or last session did
+  ezer install-merge-driver                     # let git merge memory files field by field
+  ezer config list|get|set [key] [value]        # view or change settings
+  ezer export --format json|jsonl|markdown      # dump all entries
+  ezer import <file> [--remap] [--dry-run]      # load a dump
+  ezer priming --print-default                  # built-in template for .ezer/priming.md`;
+
+/**
+ * The built-in priming text. A project can replace it with
+ * `.ezer/priming.md`; `ezer priming --print-default` prints this to start from.
+ */
+export const DEFAULT_PRIMING_TEMPLATE = `=== EZER ===
+I am ezer, a robot companion for AI agents. I help you maintain
+context and memory across sessions.
+
+## Current State
+
+{{state}}
+
+## Commands
+
+{{commands}}
+
+## How to Work
+
+### Work in Small, Verifiable Increments
+- Implement the smallest useful slice first, not the full solution
+- Test and commit before moving to the next piece
+- Run verifiable outputs (tests, typecheck, build) before every commit
+- Avoid premature abstractions - only write code when it's actually needed
+
+### Use Puzzles for Work
+- Puzzles represent work to be done - things you CAN'T solve now
+- Include acceptance criteria in the description so it's clear when done
+- Break large tasks into smaller puzzles with \`--blocks\` dependencies
+- Focus on one puzzle at a time; close from the bottom up (dependencies first)
+- Claim a puzzle with \`ezer puzzle start\` before working on it when other agents share the store
+- When you hit an unknown or blocker, create a puzzle and move on
+
+### Use Notes for Knowledge
+- Notes capture what you LEARNED - decisions, discoveries, patterns
+- Document rationale (why, not just what)
+- Record gotchas, file locations, architectural insights
+- Update or consolidate notes to keep context focused
+
+### Reflect and Wrap Up
+- After completing a usable increment, reflect: add notes for learnings
+- When human says "reflect" or "wrap up", or session is ending:
+  - Create puzzles for any remaining/discovered work
+  - Add notes for important learnings from this session
+  - Close any puzzles you completed
+- Run \`ezer sync\` to commit and push \`.ezer/\` changes so next session has context
+
+### Remember
+- Run \`ezer\` at session start to load context
+- Run \`ezer session start\` and \`ezer session end --summary "..."\` so the next session sees what you did
+- Commit \`.ezer/\` to git - this is how memory persists across sessions/branches
+- You are the agent - ezer only stores and retrieves, you do the thinking
+`;
+
+export const PRIMING_PLACEHOLDERS = [
+  "state",
+  "commands",
+  "openPuzzles",
+  "notes",
+  "lastSession",
+] as const;
+export type PrimingPlaceholder = (typeof PRIMING_PLACEHOLDERS)[number];
+
+/**
+ * Replace `{{name}}` placeholders in a priming template.
+ * Unknown placeholders are errors, so typos don't end up in the prompt.
+ */
+export function renderPrimingTemplate(
+  template: string,
+  values: Record<PrimingPlaceholder, string>,
+  file = "priming template"
+): string {
+  return template.replace(/\{\{\s*([^{}]*?)\s*\}\}/g, (_match, name: string) => {
+    if (!(PRIMING_PLACEHOLDERS as readonly string[]).includes(name)) {
+      throw new EzerError(
+        "INVALID_FILE",
+        `${file}: unknown placeholder {{${name}}}. Known placeholders: ${PRIMING_PLACEHOLDERS.map((p) => `{{${p}}}`).join(", ")}`
+      );
+    }
+    return values[name as PrimingPlaceholder];
+  });
+}
+
+async function readPrimingTemplate(store: EzerStore): Promise<string | null> {
+  try {
+    return await readFile(store.primingFile, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Render `.ezer/priming.md` if the project has one, or the built-in
+ * template otherwise.
+ */
+export async function getPrimingText(store: EzerStore): Promise<string> {
+  if (!(await store.exists())) {
+    return renderPrimingTemplate(DEFAULT_PRIMING_TEMPLATE, {
+      state: 'No ezer store found. Run "ezer init" to create one.',
+      commands: COMMANDS_TEXT,
+      openPuzzles: "No open puzzles.",
+      notes: "No notes.",
+      lastSession: "No sessions yet.",
+    });
+  }
+
+  const template = await readPrimingTemplate(store);
+  const entries = await store.listMemoryEntries();
+  const openPuzzles = entries.filter((e) => e.type === "puzzle" && e.status !== "closed");
+  const notes = entries.filter((e) => e.type === "note");
+  return renderPrimingTemplate(
+    template ?? DEFAULT_PRIMING_TEMPLATE,
+    {
+      state: await renderState(store),
+      commands: COMMANDS_TEXT,
+      openPuzzles:
+        openPuzzles.length > 0 ? formatOpenPuzzleLines(openPuzzles).join("\n") : "No open puzzles.",
+      notes: notes.length > 0 ? formatNoteLines(notes).join("\n") : "No notes.",
+      lastSession: (await renderLastSession(store)) ?? "No sessions yet.",
+    },
+    store.primingFile
+  );
+}
@@ -0,0 +1,116 @@
+import { isAbsolute, posix, relative, resolve, sep } from "node:path";
+import { EzerError } from "./errors.ts";
+import type { MemoryEntry } from "./memory.ts";
+
+/**
+ * A place in the code an entry is about, written `path`, `path:12`,
+ * `path:12-40` or `path#symbol`. Paths are relative to the store root.
+ */
+export interface CodeRef {
+  path: string;
+  startLine?: number | undefined;
+  endLine?: number | undefined;
+  symbol?: string | undefined;
+}
+
+const REF_PATTERN = /^(.+?)(?::(\d+)(?:-(\d+))?)?(?:#(.+))?$/;
+
+/** Split a ref into its path and location. Throws on paths outside the root. */
+export function parseRef(ref: string): CodeRef {
+  const match = ref.trim().match(REF_PATTERN);
+  const rawPath = match?.[1]?.replace(/\\/g, "/") ?? "";
+  const path = posix.normalize(rawPath).replace(/\/+$/, "");
+  if (
+    path.length === 0 ||
+    path === "." ||
+    posix.isAbsolute(path) ||
+    path === ".." ||
+    path.startsWith("../")
+  ) {
+    throw new EzerError(
+      "INVALID_ARGUMENT",
+      `Invalid ref "${ref}": expected a path inside the project, like src/app.ts:10-20`
+    );
+  }
+  const parsed: CodeRef = { path };
+  if (match?.[2] !== undefined) {
+    parsed.startLine = Number(match[2]);
+    parsed.endLine = match[3] !== undefined ? Number(match[3]) : undefined;
+    if (parsed.endLine !== undefined && parsed.endLine < parsed.startLine) {
+      throw new EzerError(
+        "INVALID_ARGUMENT",
+        `Invalid ref "${ref}": line range ends before it starts`
+      );
+    }
+  }
+  parsed.symbol = match?.[4]?.trim() || undefined;
+  return parsed;
+}
+
+export function formatRef(ref: CodeRef): string {
+  const lines =
+    ref.startLine === undefined
+      ? ""
+      : `:${ref.startLine}${ref.endLine !== undefined ? `-${ref.endLine}` : ""}`;
+  return `${ref.path}${lines}${ref.symbol ? `#${ref.symbol}` : ""}`;
+}
+
+/**
+ * Normalize refs from frontmatter or user input, deduplicated in first-seen
+ * order. Invalid refs throw, or are dropped when `lenient` is set (for
+ * hand-edited files).
+ */
+export function normalizeRefs(refs: unknown, lenient = false): string[] {
+  const list = Array.isArray(refs) ? refs : typeof refs === "string" ? [refs] : [];
+  const result: string[] = [];
+  for (const raw of list) {
+    if (typeof raw !== "string" || raw.trim().length === 0) continue;
+    let ref: string;
+    try {
+      ref = formatRef(parseRef(raw));
+    } catch (error) {
+      if (lenient) continue;
+      throw error;
+    }
+    if (!result.includes(ref)) {
+      result.push(ref);
+    }
+  }
+  return result;
+}
+
+/**
+ * Turn a path given on the command line, relative to `cwd`, into a path
+ * relative to the store root. Returns "" for the root itself.
+ */
+export function toRootPath(root: string, cwd: string, path: string): string {
+  const fromRoot = relative(root, resolve(cwd, path));
+  if (fromRoot === ".." || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+    throw new EzerError("INVALID_ARGUMENT", `${path} is outside the project at ${root}`);
+  }
+  return fromRoot.split(sep).join("/");
+}
+
+/** Like `toRootPath`, keeping the line range or symbol of a ref. */
+export function resolveRef(root: string, cwd: string, ref: string): string {
+  const trimmed = ref.trim();
+  const path = trimmed.match(REF_PATTERN)?.[1] ?? "";
+  const location = trimmed.slice(path.length);
+  return formatRef(parseRef(`${toRootPath(root, cwd, path)}${location}`));
+}
+
+/**
+ * The refs of an entry that point at `path` (relative to the root), at
+ * something inside it, or at a directory containing it. "" matches every ref.
+ */
+export function refsAbout(entry: Pick<MemoryEntry, "refs">, path: string): string[] {
+  return (entry.refs ?? []).filter((ref) => {
+    const refPath = parseRef(ref).path;
+    return (
+      path === "" ||
+      refPath === path ||
+      refPath.startsWith(`${path}/`) ||
+      path.startsWith(`${refPath}/`)
+    );
+  });
+}
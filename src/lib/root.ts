@@ -0,0 +1,83 @@
+import { stat } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Walk up from `startDir` looking for a directory that contains `.ezer/`.
+ * Returns null if none of the ancestors has one.
+ */
+export async function findStoreRoot(startDir: string): Promise<string | null> {
+  let current = resolve(startDir);
+  while (true) {
+    if (await isDirectory(join(current, ".ezer"))) {
+      return current;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+export async function getGitToplevel(cwd: string): Promise<string | null> {
+  try {
+    const proc = Bun.spawn(["git", "rev-parse", "--show-toplevel"], {
+      cwd,
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    const [stdout, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      proc.exited,
+    ]);
+    return exitCode === 0 ? stdout.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ResolvedRoot {
+  root: string;
+  /** How the root was chosen. */
+  source: "option" | "env" | "discovered" | "git" | "cwd";
+}
+
+/**
+ * Decide which directory holds the store.
+ *
+ * An explicit `root` (from `--root`) wins, then `EZER_ROOT`. Otherwise the
+ * nearest ancestor with an `.ezer/` directory is used, like git finds `.git/`.
+ * When there is none, the git toplevel (or failing that, `cwd`) is where
+ * `ezer init` would create one.
+ */
+export async function resolveStoreRoot(options: {
+  cwd: string;
+  root?: string | undefined;
+  env?: Record<string, string | undefined>;
+}): Promise<ResolvedRoot> {
+  const { cwd } = options;
+  if (options.root) {
+    return { root: resolve(cwd, options.root), source: "option" };
+  }
+  const envRoot = options.env?.["EZER_ROOT"];
+  if (envRoot) {
+    return { root: resolve(cwd, envRoot), source: "env" };
+  }
+  const discovered = await findStoreRoot(cwd);
+  if (discovered) {
+    return { root: discovered, source: "discovered" };
+  }
+  const toplevel = await getGitToplevel(cwd);
+  if (toplevel) {
+    return { root: toplevel, source: "git" };
+  }
+  return { root: resolve(cwd), source: "cwd" };
+}
@@ -0,0 +1,155 @@
+import { getPuzzleStates, hasTags, type MemoryEntry } from "./memory.ts";
+
+export interface SearchOptions {
+  type?: MemoryEntry["type"] | undefined;
+  /** `open`/`closed` match puzzle status; the others match computed state. */
+  status?: "open" | "closed" | "ready" | "blocked" | "in-progress" | undefined;
+  /** Only entries created at or after this time. */
+  since?: Date | undefined;
+  /** Only entries created before this time. */
+  until?: Date | undefined;
+  /** Only entries carrying all of these tags. */
+  tags?: string[] | undefined;
+  limit?: number | undefined;
+}
+
+export interface SearchResult {
+  entry: MemoryEntry;
+  score: number;
+  /** Excerpt around the best match, with matched terms wrapped in `**`. */
+  snippet: string;
+}
+
+const TITLE_WEIGHT = 3;
+const SNIPPET_RADIUS = 60;
+
+function tokenize(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((term) => term.length > 0);
+  return Array.from(new Set(terms));
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function highlight(text: string, terms: string[]): string {
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(
+    `(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join("|")})`,
+    "gi"
+  );
+  return text.replace(pattern, "**$1**");
+}
+
+function buildSnippet(entry: MemoryEntry, terms: string[]): string {
+  const body = entry.content.replace(/\s+/g, " ").trim();
+  const lower = body.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position !== -1);
+  if (positions.length === 0) {
+    // Only the title matched; show the start of the body for context
+    const head = body.slice(0, SNIPPET_RADIUS * 2);
+    return highlight(head.length < body.length ? `${head}…` : head, terms);
+  }
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(body.length, first + SNIPPET_RADIUS);
+  const excerpt = body.slice(start, end);
+  return highlight(`${start > 0 ? "…" : ""}${excerpt}${end < body.length ? "…" : ""}`, terms);
+}
+
+function matchesFilters(
+  entry: MemoryEntry,
+  options: SearchOptions,
+  states: ReturnType<typeof getPuzzleStates>
+): boolean {
+  if (options.type && entry.type !== options.type) return false;
+  if (options.tags && !hasTags(entry, options.tags)) return false;
+  if (options.status) {
+    if (entry.type !== "puzzle") return false;
+    const state = states.get(entry.id)?.state;
+    if (options.status === "open" ? state === "closed" : state !== options.status) {
+      return false;
+    }
+  }
+  const created = new Date(entry.created).getTime();
+  if (options.since && !(created >= options.since.getTime())) return false;
+  if (options.until && !(created < options.until.getTime())) return false;
+  return true;
+}
+
+/**
+ * Rank entries against a free-text query.
+ *
+ * Each query term scores by how often it appears (title matches count more),
+ * weighted by how rare the term is across all entries. Entries matching every
+ * term, or the whole query as a phrase, rank above partial matches.
+ */
+export function searchEntries(
+  entries: MemoryEntry[],
+  query: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const documents = entries.map((entry) => ({
+    entry,
+    title: (entry.title ?? "").toLowerCase(),
+    content: entry.content.toLowerCase(),
+  }));
+  const documentFrequency = new Map<string, number>();
+  for (const term of terms) {
+    const count = documents.filter(
+      (doc) => doc.title.includes(term) || doc.content.includes(term)
+    ).length;
+    documentFrequency.set(term, count);
+  }
+
+  const states = getPuzzleStates(entries.filter((entry) => entry.type === "puzzle"));
+  const phrase = query.trim().toLowerCase();
+  const results: SearchResult[] = [];
+
+  for (const doc of documents) {
+    if (!matchesFilters(doc.entry, options, states)) continue;
+
+    let score = 0;
+    let matchedTerms = 0;
+    for (const term of terms) {
+      const frequency =
+        TITLE_WEIGHT * countOccurrences(doc.title, term) + countOccurrences(doc.content, term);
+      if (frequency === 0) continue;
+      matchedTerms++;
+      const idf = Math.log(1 + documents.length / (documentFrequency.get(term) ?? 1));
+      score += (1 + Math.log(frequency)) * idf;
+    }
+    if (matchedTerms === 0) continue;
+
+    if (matchedTerms === terms.length) score *= 2;
+    if (terms.length > 1 && (doc.title.includes(phrase) || doc.content.includes(phrase))) {
+      score *= 1.5;
+    }
+    results.push({ entry: doc.entry, score, snippet: buildSnippet(doc.entry, terms) });
+  }
+
+  results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      new Date(b.entry.created).getTime() - new Date(a.entry.created).getTime()
+  );
+  return options.limit === undefined ? results : results.slice(0, options.limit);
+}
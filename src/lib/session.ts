@@ -0,0 +1,75 @@
+import { runGit } from "./git.ts";
+import {
+  isClaimActive,
+  type EzerStore,
+  type MemoryEntry,
+  type SessionInfo,
+} from "./memory.ts";
+
+/** The current branch and HEAD commit, or nothing outside a git repository. */
+export async function getRepositoryInfo(root: string): Promise<SessionInfo> {
+  const info: SessionInfo = {};
+  const branch = await runGit(root, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  if (branch.exitCode === 0) info.branch = branch.stdout.trim();
+  const head = await runGit(root, ["rev-parse", "HEAD"]);
+  if (head.exitCode === 0) info.head = head.stdout.trim();
+  return info;
+}
+
+/** The most recent session that has ended. */
+export async function getLastSession(store: EzerStore): Promise<MemoryEntry | null> {
+  const sessions = await store.listMemoryEntries("session");
+  return sessions.find((session) => session.endedAt) ?? null;
+}
+
+function describeEntry(entry: MemoryEntry | undefined, id: string): string {
+  if (!entry) return `${id} (deleted)`;
+  if (entry.type === "puzzle") return `${id}: ${entry.title}`;
+  const [firstLine = ""] = entry.content.split("\n");
+  const text = firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+  return `${id}: ${text} (${entry.type})`;
+}
+
+/**
+ * Render what a session did: entries it created, puzzles it closed and
+ * puzzles left in progress (still claimed when it ended, or now for an
+ * active session).
+ */
+export async function renderSessionSummary(
+  store: EzerStore,
+  session: MemoryEntry
+): Promise<string> {
+  const entries = await store.listMemoryEntries(undefined, { includeArchived: true });
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const inProgress =
+    session.endedAt !== undefined
+      ? (session.inProgress ?? [])
+      : entries.filter((entry) => isClaimActive(entry)).map((entry) => entry.id);
+
+  const where = [
+    session.branch ? ` on ${session.branch}` : "",
+    session.head ? ` (${session.head.slice(0, 7)})` : "",
+  ].join("");
+  const lines = [
+    `Session ${session.id}${where}: ${session.created} → ${session.endedAt ?? "now"}`,
+  ];
+  if (session.content) {
+    lines.push(session.content);
+  }
+  const section = (heading: string, ids: string[], describe: (id: string) => string) => {
+    if (ids.length === 0) return;
+    lines.push(`${heading}:`);
+    lines.push(...ids.map((id) => `- ${describe(id)}`));
+  };
+  section("Closed", session.closedPuzzles ?? [], (id) => describeEntry(byId.get(id), id));
+  section("Created", session.createdEntries ?? [], (id) => describeEntry(byId.get(id), id));
+  section("Left in progress", inProgress, (id) => {
+    const puzzle = byId.get(id);
+    const claim = puzzle?.claimedBy ? ` (by ${puzzle.claimedBy})` : "";
+    return `${describeEntry(puzzle, id)}${claim}`;
+  });
+  if (lines.length === 1) {
+    lines.push("No notes or puzzles created or closed.");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,196 @@
+import { basename } from "node:path";
+import { EzerError } from "./errors.ts";
+import { runGit } from "./git.ts";
+import { parseMemoryFile, type EzerStore, type MemoryEntry } from "./memory.ts";
+import { getGitToplevel } from "./root.ts";
+
+export interface SyncOptions {
+  /** Pull (rebase) and push after committing. Off for offline use. */
+  push?: boolean | undefined;
+}
+
+export interface SyncResult {
+  /** The commit message, or null when there was nothing to commit. */
+  committed: string | null;
+  pulled: boolean;
+  pushed: boolean;
+  /** Why nothing was pulled or pushed, when `push` was requested. */
+  skipped?: string;
+}
+
+interface Change {
+  status: string;
+  path: string;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const result = await runGit(cwd, args);
+  if (result.exitCode !== 0) {
+    throw new EzerError(
+      "GIT_ERROR",
+      `git ${args[0]} failed: ${(result.stderr || result.stdout).trim()}`
+    );
+  }
+  return result.stdout;
+}
+
+/** Read an entry from a commit, or from the index when `revision` is empty. */
+async function readEntryAt(
+  cwd: string,
+  revision: string,
+  path: string
+): Promise<MemoryEntry | null> {
+  const result = await runGit(cwd, ["show", `${revision}:${path}`]);
+  if (result.exitCode !== 0) return null;
+  try {
+    return parseMemoryFile(basename(path, ".md"), result.stdout);
+  } catch {
+    return null;
+  }
+}
+
+function countOf(count: number, type: string): string {
+  return `${count} ${type}${count === 1 || type === "feedback" ? "" : "s"}`;
+}
+
+/**
+ * Summarize staged `.ezer/` changes as a commit message, such as
+ * `ezer: +2 notes, closed ez-abcde`.
+ */
+async function describeChanges(toplevel: string, changes: Change[]): Promise<string> {
+  const added = new Map<string, number>();
+  const removed = new Map<string, number>();
+  const closed: string[] = [];
+  const reopened: string[] = [];
+  const started: string[] = [];
+  let updated = 0;
+  const other: string[] = [];
+
+  // `ezer archive` moves files from memory/ to archive/
+  const entryPath = /(^|\/)(memory|archive)\/[^/]+\.md$/;
+  const archived = new Set(
+    changes
+      .filter(({ status, path }) => status === "A" && /(^|\/)archive\//.test(path))
+      .map(({ path }) => basename(path, ".md"))
+      .filter((id) =>
+        changes.some(({ status, path }) => status === "D" && path.endsWith(`memory/${id}.md`))
+      )
+  );
+
+  for (const { status, path } of changes) {
+    if (!entryPath.test(path)) {
+      other.push(basename(path));
+      continue;
+    }
+    if (archived.has(basename(path, ".md"))) {
+      continue;
+    }
+    const before = status === "A" ? null : await readEntryAt(toplevel, "HEAD", path);
+    const after = status === "D" ? null : await readEntryAt(toplevel, "", path);
+    if (!before && after) {
+      added.set(after.type, (added.get(after.type) ?? 0) + 1);
+    } else if (before && !after && status === "D") {
+      removed.set(before.type, (removed.get(before.type) ?? 0) + 1);
+    } else if (before && before.status !== "closed" && after?.status === "closed") {
+      closed.push(after.id);
+    } else if (before?.status === "closed" && after && after.status !== "closed") {
+      reopened.push(after.id);
+    } else if (before?.status !== "in-progress" && after?.status === "in-progress") {
+      started.push(after.id);
+    } else {
+      updated++;
+    }
+  }
+
+  const parts = [
+    ...[...added].map(([type, count]) => `+${countOf(count, type)}`),
+    ...[...removed].map(([type, count]) => `-${countOf(count, type)}`),
+    ...(closed.length > 0 ? [`closed ${closed.join(" ")}`] : []),
+    ...(reopened.length > 0 ? [`reopened ${reopened.join(" ")}`] : []),
+    ...(started.length > 0 ? [`started ${started.join(" ")}`] : []),
+    ...(archived.size > 0 ? [`archived ${archived.size}`] : []),
+    ...(updated > 0 ? [`updated ${updated} ${updated === 1 ? "entry" : "entries"}`] : []),
+    ...(other.length > 0 ? [`updated ${other.join(", ")}`] : []),
+  ];
+  return `ezer: ${parts.join(", ")}`;
+}
+
+/**
+ * Commit `.ezer/` changes (and nothing else), then pull with rebase and
+ * push so other sessions and branches see them.
+ *
+ * If rebasing hits a conflict, the rebase is abandoned and the upstream is
+ * merged instead, which lets the `ezer` merge driver resolve memory files.
+ * Conflicts that remain are left for the user to resolve.
+ */
+export async function syncStore(store: EzerStore, options: SyncOptions = {}): Promise<SyncResult> {
+  const toplevel = await getGitToplevel(store.root);
+  if (!toplevel) {
+    throw new EzerError("GIT_ERROR", `${store.root} is not inside a git repository`);
+  }
+
+  await git(store.root, ["add", "-A", "--", ".ezer"]);
+  const changes = (
+    await git(store.root, ["diff", "--cached", "--name-status", "--no-renames", "--", ".ezer"])
+  )
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [status = "", path = ""] = line.split("\t");
+      return { status, path };
+    });
+
+  const result: SyncResult = { committed: null, pulled: false, pushed: false };
+  if (changes.length > 0) {
+    const message = await describeChanges(toplevel, changes);
+    // A pathspec commits only .ezer/, leaving anything else the user staged alone
+    await git(store.root, ["commit", "-q", "-m", message, "--", ".ezer"]);
+    result.committed = message;
+  }
+
+  if (options.push === false) {
+    return result;
+  }
+
+  const upstream = await runGit(store.root, ["rev-parse", "--abbrev-ref", "@{upstream}"]);
+  if (upstream.exitCode !== 0) {
+    const remotes = (await git(store.root, ["remote"])).split("\n").filter(Boolean);
+    if (remotes.length === 0) {
+      result.skipped = "no git remote configured";
+      return result;
+    }
+    // First push of this branch: nothing to pull yet
+    const remote = remotes.includes("origin") ? "origin" : remotes[0]!;
+    await git(store.root, ["push", "-q", "--set-upstream", remote, "HEAD"]);
+    result.pushed = true;
+    return result;
+  }
+
+  const rebase = await runGit(store.root, ["pull", "-q", "--rebase", "--autostash"]);
+  if (rebase.exitCode !== 0) {
+    await runGit(store.root, ["rebase", "--abort"]);
+    const merge = await runGit(store.root, [
+      "pull",
+      "-q",
+      "--no-rebase",
+      "--no-edit",
+      "--autostash",
+    ]);
+    if (merge.exitCode !== 0) {
+      const conflicted = (await git(store.root, ["diff", "--name-only", "--diff-filter=U"]))
+        .split("\n")
+        .filter(Boolean);
+      throw new EzerError(
+        "GIT_ERROR",
+        conflicted.length > 0
+          ? `Merge conflicts in ${conflicted.join(", ")}. Resolve them, commit, then run "ezer sync" again.`
+          : `git pull failed: ${(merge.stderr || merge.stdout).trim()}`
+      );
+    }
+  }
+  result.pulled = true;
+
+  await git(store.root, ["push", "-q"]);
+  result.pushed = true;
+  return result;
+}
@@ -0,0 +1,339 @@
+import { EzerError, getErrorMessage } from "./errors.ts";
+import { JSON_OUTPUT_VERSION, toJsonEntry, type JsonEntry } from "./json.ts";
+import {
+  ENTRY_TYPES,
+  findBlocksPath,
+  getPuzzleStates,
+  ID_PATTERN,
+  isEntryType,
+  isPriority,
+  normalizeTags,
+  parseMemoryFile,
+  PRIORITIES,
+  serializeMemoryEntry,
+  type EzerStore,
+  type MemoryEntry,
+} from "./memory.ts";
+import { normalizeRefs } from "./refs.ts";
+
+export const EXPORT_FORMATS = ["json", "jsonl", "markdown"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/** Precedes each entry in a markdown export: `<!-- ezer:entry ez-abcde state=ready -->`. */
+const MARKDOWN_MARKER = /^<!-- ezer:entry (\S+)(?: [^>]*)? -->$/gm;
+
+function formatMarkdownEntry(entry: JsonEntry): string {
+  const state = entry.state ? ` state=${entry.state}` : "";
+  return `<!-- ezer:entry ${entry.id}${state} -->\n${serializeMemoryEntry(entry)}`;
+}
+
+/**
+ * Dump every entry, archived ones included, with computed puzzle state.
+ * `json` matches the `--json` output of `note list`; `jsonl` has one entry
+ * per line; `markdown` is the memory files one after another.
+ */
+export async function exportStore(store: EzerStore, format: ExportFormat): Promise<string> {
+  const entries = await store.listMemoryEntries(undefined, { includeArchived: true });
+  const states = getPuzzleStates(entries.filter((entry) => entry.type === "puzzle"));
+  const jsonEntries = entries.map((entry) => toJsonEntry(entry, states));
+
+  switch (format) {
+    case "json":
+      return `${JSON.stringify({ version: JSON_OUTPUT_VERSION, entries: jsonEntries }, null, 2)}\n`;
+    case "jsonl":
+      return jsonEntries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+    case "markdown":
+      return `# ezer export\n\n${jsonEntries.map(formatMarkdownEntry).join("\n")}`;
+  }
+}
+
+/**
+ * Check one exported entry field by field and reduce it to the stored
+ * fields, dropping computed state such as `blockedBy`. Throws INVALID_FILE
+ * for a missing or malformed field.
+ */
+function toMemoryEntry(value: unknown, source: string): MemoryEntry {
+  const raw = (typeof value === "object" && value !== null ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const id = raw["id"];
+  if (typeof id !== "string" || !ID_PATTERN.test(id)) {
+    throw new EzerError("INVALID_FILE", `${source}: invalid id ${JSON.stringify(id)}`);
+  }
+  const invalid = (field: string, expected: string) =>
+    new EzerError(
+      "INVALID_FILE",
+      `${source}: ${id} has an invalid ${field} ${JSON.stringify(raw[field])}` +
+        ` (expected ${expected})`
+    );
+  const optionalString = (field: string): string | undefined => {
+    const fieldValue = raw[field];
+    if (fieldValue === undefined) return undefined;
+    if (typeof fieldValue !== "string") throw invalid(field, "a string");
+    return fieldValue;
+  };
+  const optionalIds = (field: string): string[] | undefined => {
+    const fieldValue = raw[field];
+    if (fieldValue === undefined) return undefined;
+    if (
+      !Array.isArray(fieldValue) ||
+      !fieldValue.every((item) => typeof item === "string" && ID_PATTERN.test(item))
+    ) {
+      throw invalid(field, "a list of IDs");
+    }
+    return fieldValue.length > 0 ? (fieldValue as string[]) : undefined;
+  };
+
+  const type = raw["type"];
+  if (!isEntryType(type)) {
+    throw invalid("type", ENTRY_TYPES.join(", "));
+  }
+  const created = optionalString("created");
+  if (created === undefined || Number.isNaN(new Date(created).getTime())) {
+    throw invalid("created", "a timestamp");
+  }
+  const content = optionalString("content");
+  if (content === undefined) {
+    throw invalid("content", "a string");
+  }
+  const entry: MemoryEntry = { id, type, content, created };
+
+  const title = optionalString("title");
+  if (title !== undefined) entry.title = title;
+  const status = raw["status"];
+  if (status !== undefined) {
+    if (status !== "open" && status !== "in-progress" && status !== "closed") {
+      throw invalid("status", "open, in-progress or closed");
+    }
+    entry.status = status;
+  }
+  const priority = raw["priority"];
+  if (priority !== undefined) {
+    if (!isPriority(priority)) throw invalid("priority", PRIORITIES.join(", "));
+    entry.priority = priority;
+  }
+  for (const key of [
+    "closedAt",
+    "claimedBy",
+    "claimedAt",
+    "leaseUntil",
+    "branch",
+    "head",
+    "endedAt",
+    "endHead",
+  ] as const) {
+    const fieldValue = optionalString(key);
+    if (fieldValue !== undefined) entry[key] = fieldValue;
+  }
+  for (const key of ["blocks", "createdEntries", "closedPuzzles", "inProgress"] as const) {
+    const ids = optionalIds(key);
+    if (ids) entry[key] = ids;
+  }
+  for (const [key, normalize] of [
+    ["tags", normalizeTags],
+    ["refs", normalizeRefs],
+  ] as const) {
+    const fieldValue = raw[key];
+    if (fieldValue === undefined) continue;
+    if (!Array.isArray(fieldValue)) throw invalid(key, "a list");
+    let list: string[];
+    try {
+      list = normalize(fieldValue);
+    } catch (error) {
+      throw new EzerError("INVALID_FILE", `${source}: ${id}: ${getErrorMessage(error)}`);
+    }
+    if (list.length > 0) entry[key] = list;
+  }
+  return entry;
+}
+
+/** Parse a dump written by `exportStore`, in any of its formats. */
+export function parseExport(text: string, source = "import"): MemoryEntry[] {
+  const trimmed = text.trim();
+  if (trimmed === "") return [];
+
+  if (trimmed.startsWith("{")) {
+    let values: unknown[] | undefined;
+    try {
+      const parsed = JSON.parse(trimmed) as { entries?: unknown };
+      if (Array.isArray(parsed.entries)) values = parsed.entries;
+    } catch {
+      // Not a single JSON document
+    }
+    // Otherwise JSON lines, one entry per line
+    values ??= trimmed
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch (error) {
+          throw new EzerError(
+            "INVALID_FILE",
+            `${source}: line ${index + 1} is not JSON: ${getErrorMessage(error)}`
+          );
+        }
+      });
+    return values.map((value, index) => toMemoryEntry(value, `${source} entry ${index + 1}`));
+  }
+
+  const markers = [...text.matchAll(MARKDOWN_MARKER)];
+  if (markers.length === 0) {
+    throw new EzerError(
+      "INVALID_FILE",
+      `${source}: not an ezer export (expected JSON, JSON lines or markdown)`
+    );
+  }
+  return markers.map((marker, index) => {
+    const id = marker[1] ?? "";
+    const start = marker.index + marker[0].length + 1;
+    const end = markers[index + 1]?.index ?? text.length;
+    return toMemoryEntry(
+      { ...parseMemoryFile(id, text.slice(start, end)), id },
+      `${source} entry ${index + 1}`
+    );
+  });
+}
+
+export interface ImportOptions {
+  /** Give entries from other prefixes new IDs with the local prefix. */
+  remap?: boolean | undefined;
+  /**
+   * What to do with entries that already exist: `skip` them, or `merge`
+   * their tags, refs and blocks into the local entry.
+   */
+  duplicates?: "skip" | "merge" | undefined;
+  /** Work out the result without writing anything. */
+  dryRun?: boolean | undefined;
+}
+
+export interface ImportResult {
+  /** New entries, with the ID they had in the dump. */
+  created: Array<{ entry: MemoryEntry; from: string }>;
+  merged: MemoryEntry[];
+  /** IDs (in the dump) of duplicates left alone. */
+  skipped: string[];
+}
+
+function union(a: string[] | undefined, b: string[] | undefined): string[] | undefined {
+  const values = [...new Set([...(a ?? []), ...(b ?? [])])];
+  return values.length > 0 ? values : undefined;
+}
+
+/** Entries match when they have the same type, creation time and text. */
+function isSameEntry(a: MemoryEntry, b: MemoryEntry): boolean {
+  return (
+    a.type === b.type && a.created === b.created && a.content === b.content && a.title === b.title
+  );
+}
+
+/**
+ * Load entries from a dump. An entry is a duplicate if its ID exists
+ * locally, or if a local entry has the same type, creation time and text
+ * (so importing a remapped dump twice does not copy it twice). `blocks`
+ * references follow remapped IDs and duplicates to their local IDs.
+ * Throws CYCLE, writing nothing, if the imported `blocks` would make a
+ * puzzle (transitively) block itself.
+ * Everything happens under the store lock, as one operation for `ezer undo`.
+ */
+export async function importEntries(
+  store: EzerStore,
+  entries: MemoryEntry[],
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  return store.runOperation("importEntries", () => importLocked(store, entries, options));
+}
+
+async function importLocked(
+  store: EzerStore,
+  entries: MemoryEntry[],
+  options: ImportOptions
+): Promise<ImportResult> {
+  const existing = await store.listMemoryEntries(undefined, { includeArchived: true });
+  const existingById = new Map(existing.map((entry) => [entry.id, entry]));
+  const prefix = await store.getOrCreatePrefix();
+  const taken = new Set([...existingById.keys(), ...entries.map((entry) => entry.id)]);
+
+  // First decide where each imported ID ends up
+  const idMap = new Map<string, string>();
+  const duplicates = new Map<string, MemoryEntry>();
+  for (const entry of entries) {
+    const local =
+      existingById.get(entry.id) ?? existing.find((candidate) => isSameEntry(candidate, entry));
+    if (local) {
+      duplicates.set(entry.id, local);
+      idMap.set(entry.id, local.id);
+    } else if (options.remap && !entry.id.startsWith(`${prefix}-`)) {
+      let id = await store.generateId();
+      while (taken.has(id)) {
+        id = await store.generateId();
+      }
+      taken.add(id);
+      idMap.set(entry.id, id);
+    } else {
+      idMap.set(entry.id, entry.id);
+    }
+  }
+
+  const result: ImportResult = { created: [], merged: [], skipped: [] };
+  for (const entry of entries) {
+    const blocks = entry.blocks?.map((id) => idMap.get(id) ?? id);
+    const local = duplicates.get(entry.id);
+    if (!local) {
+      const created: MemoryEntry = { ...entry, id: idMap.get(entry.id) ?? entry.id };
+      if (blocks) created.blocks = blocks;
+      result.created.push({ entry: created, from: entry.id });
+      continue;
+    }
+    if (options.duplicates !== "merge") {
+      result.skipped.push(entry.id);
+      continue;
+    }
+    const merged: MemoryEntry = { ...local };
+    const mergedBlocks = union(local.blocks, blocks)?.filter((id) => id !== local.id);
+    const mergedTags = union(local.tags, entry.tags);
+    const mergedRefs = union(local.refs, entry.refs);
+    if (mergedBlocks?.length) merged.blocks = mergedBlocks;
+    if (mergedTags) merged.tags = mergedTags;
+    if (mergedRefs) merged.refs = mergedRefs;
+    if (JSON.stringify(merged) === JSON.stringify(local)) {
+      result.skipped.push(entry.id);
+    } else {
+      result.merged.push(merged);
+    }
+  }
+
+  const written = [...result.created.map(({ entry }) => entry), ...result.merged];
+  checkForCycles(existing, written);
+  if (!options.dryRun) {
+    await store.restoreEntries(written);
+  }
+  return result;
+}
+
+/** Refuse `blocks` in written entries that would close a cycle, as `puzzle link` does. */
+function checkForCycles(existing: MemoryEntry[], written: MemoryEntry[]): void {
+  const byId = new Map(
+    [...existing, ...written]
+      .filter((entry) => entry.type === "puzzle")
+      .map((entry) => [entry.id, entry])
+  );
+  const puzzles = [...byId.values()];
+  for (const entry of written) {
+    for (const blocksId of entry.blocks ?? []) {
+      const path = blocksId === entry.id ? [entry.id] : findBlocksPath(puzzles, blocksId, entry.id);
+      if (path) {
+        throw new EzerError(
+          "CYCLE",
+          `Cannot import ${entry.id} blocking ${blocksId}: ` +
+            `it would create a cycle ${[entry.id, ...path].join(" → ")}`
+        );
+      }
+    }
+  }
+}
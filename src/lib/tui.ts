@@ -0,0 +1,472 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { EzerError, getErrorMessage } from "./errors.ts";
+import {
+  getPuzzleStates,
+  sortByWorkOrder,
+  type EzerStore,
+  type MemoryEntry,
+  type PuzzleStatus,
+} from "./memory.ts";
+
+export const TUI_PANES = ["notes", "ready", "blocked", "closed"] as const;
+export type TuiPane = (typeof TUI_PANES)[number];
+
+const PANE_TITLES: Record<TuiPane, string> = {
+  notes: "Notes",
+  ready: "Ready",
+  blocked: "Blocked",
+  closed: "Closed",
+};
+
+/** Entries shown in each pane, read from `listMemoryEntries`. */
+export interface TuiView {
+  panes: Record<TuiPane, MemoryEntry[]>;
+  states: Map<string, PuzzleStatus>;
+}
+
+export async function loadTuiView(store: EzerStore): Promise<TuiView> {
+  const puzzles = await store.listMemoryEntries("puzzle");
+  const states = getPuzzleStates(puzzles);
+  const inState = (...wanted: string[]) =>
+    puzzles.filter((puzzle) => wanted.includes(states.get(puzzle.id)?.state ?? "ready"));
+  const closed = inState("closed").sort((a, b) =>
+    (b.closedAt ?? b.created).localeCompare(a.closedAt ?? a.created)
+  );
+  return {
+    panes: {
+      notes: await store.listMemoryEntries("note"),
+      ready: sortByWorkOrder(inState("ready", "in-progress"), states),
+      blocked: sortByWorkOrder(inState("blocked"), states),
+      closed,
+    },
+    states,
+  };
+}
+
+/** Key names as produced by `parseKeys`: a character, or a name like "up". */
+export type TuiKey = string;
+
+/** Split raw terminal input into keys. Unknown escape sequences are dropped. */
+export function parseKeys(input: string): TuiKey[] {
+  const sequences: Record<string, TuiKey> = {
+    "\x1b[A": "up",
+    "\x1b[B": "down",
+    "\x1b[C": "right",
+    "\x1b[D": "left",
+    "\x1b[Z": "shift-tab",
+    "\x1bOA": "up",
+    "\x1bOB": "down",
+    "\x1bOC": "right",
+    "\x1bOD": "left",
+  };
+  const keys: TuiKey[] = [];
+  let rest = input;
+  while (rest.length > 0) {
+    const sequence = Object.keys(sequences).find((s) => rest.startsWith(s));
+    if (sequence) {
+      keys.push(sequences[sequence]!);
+      rest = rest.slice(sequence.length);
+      continue;
+    }
+    const escape = rest.match(/^\x1b\[[0-9;]*[A-Za-z~]/);
+    if (escape) {
+      rest = rest.slice(escape[0].length);
+      continue;
+    }
+    const [char = ""] = rest;
+    rest = rest.slice(char.length);
+    const named: Record<string, TuiKey> = {
+      "\x1b": "escape",
+      "\t": "tab",
+      "\r": "enter",
+      "\n": "enter",
+      "\x7f": "backspace",
+      "\b": "backspace",
+      "\x03": "ctrl-c",
+    };
+    keys.push(named[char] ?? char);
+  }
+  return keys;
+}
+
+export interface TuiOptions {
+  /**
+   * Let the user edit `text`, as `runTui` does in `$EDITOR`. Returns the
+   * edited text, or null when editing was abandoned.
+   */
+  edit: (text: string) => Promise<string | null>;
+}
+
+export interface Tui {
+  /** Reread the store, keeping the selection where possible. */
+  load(): Promise<void>;
+  /** Draw the screen as lines of at most `width` columns. */
+  render(width: number, height: number): string[];
+  /** Handle a key. Resolves to false once the user quits. */
+  press(key: TuiKey): Promise<boolean>;
+}
+
+type Prompt = { kind: "link"; input: string } | { kind: "delete"; id: string };
+
+const HELP = "←→ pane  ↑↓ move  c close  o reopen  l link  e edit  d delete  r reload  q quit";
+
+const style = {
+  bold: (text: string) => `\x1b[1m${text}\x1b[0m`,
+  dim: (text: string) => `\x1b[2m${text}\x1b[0m`,
+  inverse: (text: string) => `\x1b[7m${text}\x1b[0m`,
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+};
+
+/** Cut or pad `text` to exactly `width` columns. */
+function fit(text: string, width: number): string {
+  const chars = [...text.replace(/\t/g, "  ")];
+  if (chars.length > width) {
+    return width > 0 ? `${chars.slice(0, width - 1).join("")}…` : "";
+  }
+  return text.replace(/\t/g, "  ") + " ".repeat(width - chars.length);
+}
+
+function entryLabel(entry: MemoryEntry, states: Map<string, PuzzleStatus>): string {
+  if (entry.type !== "puzzle") {
+    return `${entry.id} ${entry.content.split("\n")[0] ?? ""}`;
+  }
+  const claim = states.get(entry.id)?.state === "in-progress" ? " *" : "";
+  return `${entry.id} ${entry.priority ?? ""}${entry.priority ? " " : ""}${entry.title}${claim}`;
+}
+
+/** The text `e` opens in the editor: a puzzle's title line, a blank line, its description. */
+function toEditorText(entry: MemoryEntry): string {
+  return entry.type === "puzzle"
+    ? `${entry.title ?? ""}\n\n${entry.content}\n`
+    : `${entry.content}\n`;
+}
+
+/**
+ * Create the state behind `ezer tui`. Every change goes through the store
+ * methods the CLI uses, so it is locked, journaled and undoable the same way.
+ */
+export function createTui(store: EzerStore, options: TuiOptions): Tui {
+  let view: TuiView = {
+    panes: { notes: [], ready: [], blocked: [], closed: [] },
+    states: new Map(),
+  };
+  let pane: TuiPane = "ready";
+  const cursor: Record<TuiPane, number> = { notes: 0, ready: 0, blocked: 0, closed: 0 };
+  let prompt: Prompt | null = null;
+  let message = "";
+  let isError = false;
+  let detail: string[] = [];
+
+  const selected = (): MemoryEntry | undefined => view.panes[pane][cursor[pane]];
+
+  async function loadDetail(): Promise<void> {
+    const entry = selected();
+    if (!entry) {
+      detail = [];
+      return;
+    }
+    const lines: string[] = [];
+    if (entry.type === "puzzle") {
+      lines.push(...(await store.renderPuzzleTree(entry.id)).split("\n"));
+      const status = view.states.get(entry.id)?.state ?? entry.status ?? "open";
+      lines.push("", `Status: ${status}${entry.claimedBy ? ` (by ${entry.claimedBy})` : ""}`);
+    } else {
+      lines.push(`${entry.id} (${entry.type}, ${entry.created})`);
+    }
+    if (entry.tags?.length) lines.push(`Tags: ${entry.tags.join(", ")}`);
+    if (entry.refs?.length) lines.push(`Refs: ${entry.refs.join(", ")}`);
+    if (entry.content) lines.push("", ...entry.content.split("\n"));
+    detail = lines;
+  }
+
+  async function load(): Promise<void> {
+    const selectedIds = Object.fromEntries(
+      TUI_PANES.map((name) => [name, view.panes[name][cursor[name]]?.id])
+    );
+    view = await loadTuiView(store);
+    for (const name of TUI_PANES) {
+      const index = view.panes[name].findIndex((entry) => entry.id === selectedIds[name]);
+      const last = Math.max(0, view.panes[name].length - 1);
+      cursor[name] = index === -1 ? Math.min(cursor[name], last) : index;
+    }
+    await loadDetail();
+  }
+
+  function report(text: string, error = false): void {
+    message = text;
+    isError = error;
+  }
+
+  function requirePuzzle(entry: MemoryEntry | undefined): MemoryEntry | null {
+    if (entry?.type !== "puzzle") {
+      report(entry ? `${entry.id} is not a puzzle` : "Nothing selected", true);
+      return null;
+    }
+    return entry;
+  }
+
+  async function edit(entry: MemoryEntry): Promise<void> {
+    const text = await options.edit(toEditorText(entry));
+    if (text === null || text === toEditorText(entry)) {
+      report(`${entry.id} unchanged`);
+      return;
+    }
+    if (entry.type === "puzzle") {
+      const [title = "", ...rest] = text.split("\n");
+      if (title.trim().length === 0) {
+        report("The first line must be the puzzle title", true);
+        return;
+      }
+      await store.updatePuzzle(entry.id, {
+        title: title.trim(),
+        content: rest.join("\n").trim(),
+      });
+    } else {
+      await store.updateNote(entry.id, text.trim());
+    }
+    report(`Updated ${entry.id}`);
+  }
+
+  async function handlePrompt(current: Prompt, key: TuiKey): Promise<void> {
+    if (current.kind === "delete") {
+      prompt = null;
+      if (key === "y" || key === "Y") {
+        await store.deleteNote(current.id);
+        report(`Deleted ${current.id}`);
+      } else {
+        report("Delete cancelled");
+      }
+      return;
+    }
+    if (key === "escape" || key === "ctrl-c") {
+      prompt = null;
+      report("Link cancelled");
+    } else if (key === "backspace") {
+      current.input = current.input.slice(0, -1);
+    } else if (key === "enter") {
+      prompt = null;
+      const puzzle = requirePuzzle(selected());
+      if (!puzzle) return;
+      const target = await store.resolveId(current.input);
+      await store.updatePuzzleBlocks(puzzle.id, target, "append");
+      report(`${puzzle.id} now blocks ${target}`);
+    } else if ([...key].length === 1) {
+      current.input += key;
+    }
+  }
+
+  async function handleKey(key: TuiKey): Promise<boolean> {
+    const index = TUI_PANES.indexOf(pane);
+    const entry = selected();
+    switch (key) {
+      case "q":
+      case "ctrl-c":
+        return false;
+      case "tab":
+      case "right":
+        pane = TUI_PANES[(index + 1) % TUI_PANES.length]!;
+        break;
+      case "shift-tab":
+      case "left":
+        pane = TUI_PANES[(index + TUI_PANES.length - 1) % TUI_PANES.length]!;
+        break;
+      case "1":
+      case "2":
+      case "3":
+      case "4":
+        pane = TUI_PANES[Number(key) - 1]!;
+        break;
+      case "up":
+      case "k":
+        cursor[pane] = Math.max(0, cursor[pane] - 1);
+        break;
+      case "down":
+      case "j":
+        cursor[pane] = Math.min(Math.max(0, view.panes[pane].length - 1), cursor[pane] + 1);
+        break;
+      case "r":
+        report("Reloaded");
+        break;
+      case "c":
+      case "o": {
+        const puzzle = requirePuzzle(entry);
+        if (!puzzle) break;
+        await store.updatePuzzleStatus(puzzle.id, key === "c" ? "closed" : "open");
+        report(`${key === "c" ? "Closed" : "Reopened"} ${puzzle.id}`);
+        break;
+      }
+      case "l":
+        if (requirePuzzle(entry)) {
+          prompt = { kind: "link", input: "" };
+          report("");
+        }
+        break;
+      case "e":
+        if (entry) await edit(entry);
+        break;
+      case "d":
+        if (entry) prompt = { kind: "delete", id: entry.id };
+        break;
+      default:
+        return true;
+    }
+    await load();
+    return true;
+  }
+
+  async function press(key: TuiKey): Promise<boolean> {
+    try {
+      if (prompt) {
+        await handlePrompt(prompt, key);
+        await load();
+        return true;
+      }
+      return await handleKey(key);
+    } catch (error) {
+      report(getErrorMessage(error), true);
+      await load();
+      return true;
+    }
+  }
+
+  function render(width: number, height: number): string[] {
+    const tabs = TUI_PANES.map(
+      (name, index) => ` ${index + 1} ${PANE_TITLES[name]} (${view.panes[name].length}) `
+    );
+    const tabsLine = fit(tabs.join(" "), width);
+    const active = tabs[TUI_PANES.indexOf(pane)]!;
+    const start = tabs
+      .slice(0, TUI_PANES.indexOf(pane))
+      .reduce((sum, tab) => sum + tab.length + 1, 0);
+    const lines = [
+      tabsLine.slice(0, start) +
+        style.inverse(tabsLine.slice(start, start + active.length)) +
+        tabsLine.slice(start + active.length),
+    ];
+
+    const listWidth = Math.min(60, Math.floor(width * 0.45));
+    const detailWidth = width - listWidth - 3;
+    const bodyHeight = Math.max(1, height - 4);
+    const entries = view.panes[pane];
+    const top = Math.max(0, Math.min(cursor[pane] - bodyHeight + 1, entries.length - bodyHeight));
+    for (let row = 0; row < bodyHeight; row++) {
+      const entry = entries[top + row];
+      let left = fit(entry ? entryLabel(entry, view.states) : "", listWidth);
+      if (entry && top + row === cursor[pane]) left = style.inverse(left);
+      if (row === 0 && entries.length === 0) left = style.dim(fit("(empty)", listWidth));
+      lines.push(`${left} │ ${fit(detail[row] ?? "", detailWidth)}`);
+    }
+
+    let status: string;
+    if (prompt?.kind === "link") {
+      const question = `${selected()?.id} blocks (ID, enter to link, esc to cancel)`;
+      status = fit(`${question}: ${prompt.input}`, width);
+    } else if (prompt?.kind === "delete") {
+      status = style.bold(fit(`Delete ${prompt.id}? (y/n)`, width));
+    } else {
+      status = isError ? style.red(fit(message, width)) : fit(message, width);
+    }
+    lines.push("─".repeat(width), status, style.dim(fit(HELP, width)));
+    return lines;
+  }
+
+  return { load, render, press };
+}
+
+/** Open `text` in `$VISUAL` or `$EDITOR` (falling back to vi) and return the result. */
+async function editInEditor(text: string): Promise<string | null> {
+  const dir = await mkdtemp(join(tmpdir(), "ezer-edit-"));
+  const file = join(dir, "entry.md");
+  try {
+    await writeFile(file, text, "utf-8");
+    const editor = process.env["VISUAL"] || process.env["EDITOR"] || "vi";
+    const proc = Bun.spawn(["sh", "-c", `${editor} "$1"`, "sh", file], {
+      stdin: "inherit",
+      stdout: "inherit",
+      stderr: "inherit",
+    });
+    if ((await proc.exited) !== 0) {
+      return null;
+    }
+    return await readFile(file, "utf-8");
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+const ENTER_SCREEN = "\x1b[?1049h\x1b[?25l";
+const LEAVE_SCREEN = "\x1b[?25h\x1b[?1049l";
+
+/**
+ * Run the full-screen interface on the terminal until the user quits.
+ * Throws INVALID_ARGUMENT when stdin or stdout is not a terminal.
+ */
+export async function runTui(store: EzerStore): Promise<void> {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY || !stdout.isTTY) {
+    throw new EzerError("INVALID_ARGUMENT", "ezer tui needs an interactive terminal");
+  }
+
+  const enter = () => {
+    stdin.setRawMode(true);
+    stdout.write(ENTER_SCREEN);
+  };
+  const leave = () => {
+    stdout.write(LEAVE_SCREEN);
+    stdin.setRawMode(false);
+  };
+  const tui = createTui(store, {
+    edit: async (text) => {
+      leave();
+      try {
+        return await editInEditor(text);
+      } finally {
+        enter();
+      }
+    },
+  });
+  const draw = () => {
+    const lines = tui.render(stdout.columns || 80, stdout.rows || 24);
+    stdout.write(`\x1b[H${lines.join("\x1b[K\r\n")}\x1b[K\x1b[J`);
+  };
+
+  await tui.load();
+  enter();
+  draw();
+  stdout.on("resize", draw);
+  stdin.setEncoding("utf8");
+  try {
+    await new Promise<void>((resolve, reject) => {
+      // Keys are handled one at a time, in the order they were typed
+      let queue = Promise.resolve(true);
+      const onData = (data: string) => {
+        for (const key of parseKeys(data)) {
+          queue = queue
+            .then(async (running) => {
+              if (!running) return false;
+              const next = await tui.press(key);
+              if (next) {
+                draw();
+              } else {
+                stdin.off("data", onData);
+                resolve();
+              }
+              return next;
+            })
+            .catch((error: unknown) => {
+              reject(error);
+              return false;
+            });
+        }
+      };
+      stdin.on("data", onData);
+      stdin.resume();
+    });
+  } finally {
+    stdout.off("resize", draw);
+    stdin.pause();
+    leave();
+  }
+}
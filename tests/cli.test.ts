@@ -1,21 +1,25 @@
-import { mkdtemp, readFile, readdir } from "node:fs/promises";
+import { mkdir, mkdtemp, readFile, readdir, realpath, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { expect, test, beforeEach } from "bun:test";
 import { ID_PATTERN, parseMemoryFile } from "../src/lib/memory.ts";
 
 const BIN_PATH = join(process.cwd(), "bin", "ezer");
+// Keeps the developer's own ~/.config/ezer/config.yaml out of the tests
+const CONFIG_HOME = await mkdtemp(join(tmpdir(), "ezer-xdg-"));
 
 async function runEzer(
   cwd: string,
   args: string[] = [],
   options?: {
     stdin?: string;
+    env?: Record<string, string>;
   }
 ) {
   const stdinOption = options?.stdin === undefined ? "inherit" : "pipe";
   const proc = Bun.spawn(["bun", BIN_PATH, ...args], {
     cwd,
+    env: { ...process.env, XDG_CONFIG_HOME: CONFIG_HOME, ...options?.env },
     stdout: "pipe",
     stderr: "pipe",
     stdin: stdinOption,
@@ -51,7 +55,8 @@ function parseListLines(stdout: string): string[] {
 let cwd: string;
 
 beforeEach(async () => {
-  cwd = await mkdtemp(join(tmpdir(), "ezer-acceptance-"));
+  cwd = await realpath(await mkdtemp(join(tmpdir(), "ezer-acceptance-")));
+  await runEzer(cwd, ["init"]);
 });
 
 test("shows priming text when no command is provided", async () => {
@@ -363,3 +368,787 @@ test("feedback clear removes stored feedback entries", async () => {
   const after = await readdir(join(cwd, ".ezer", "memory"));
   expect(after.some((file) => file.endsWith(".md"))).toBe(false);
 });
+
+test("--json emits versioned entries with computed puzzle state", async () => {
+  const main = await runEzer(cwd, ["puzzle", "create", "--title", "Main", "--json"]);
+  expect(main.exitCode).toBe(0);
+  const mainId = JSON.parse(main.stdout).entry.id;
+
+  const blocker = await runEzer(cwd, [
+    "--json",
+    "puzzle",
+    "create",
+    "--title",
+    "Blocker",
+    "--blocks",
+    mainId,
+  ]);
+  const created = JSON.parse(blocker.stdout);
+  expect(created.version).toBe(1);
+  expect(created.entry).toMatchObject({
+    type: "puzzle",
+    title: "Blocker",
+    status: "open",
+    blocks: [mainId],
+    state: "ready",
+    blockedBy: [],
+  });
+
+  const blocked = await runEzer(cwd, ["puzzle", "list", "--blocked", "--json"]);
+  expect(blocked.exitCode).toBe(0);
+  const list = JSON.parse(blocked.stdout);
+  expect(list.filter).toBe("blocked");
+  expect(list.entries).toHaveLength(1);
+  expect(list.entries[0]).toMatchObject({
+    id: mainId,
+    state: "blocked",
+    blockedBy: [created.entry.id],
+  });
+
+  await runEzer(cwd, ["note", "create", "--content", "json note"]);
+  const status = await runEzer(cwd, ["status", "--json"]);
+  const state = JSON.parse(status.stdout);
+  expect(state.puzzles).toHaveLength(2);
+  expect(state.notes).toHaveLength(1);
+  expect(state.notes[0].content).toBe("json note");
+});
+
+test("--json reports errors on stderr with stable codes", async () => {
+  const missing = await runEzer(cwd, ["puzzle", "close", "--id", "zz-aaaaa", "--json"]);
+  expect(missing.exitCode).toBe(1);
+  expect(missing.stdout).toBe("");
+  expect(JSON.parse(missing.stderr)).toEqual({
+    version: 1,
+    error: { code: "NOT_FOUND", message: "zz-aaaaa not found" },
+  });
+
+  const note = await runEzer(cwd, ["note", "create", "--content", "not a puzzle"]);
+  const noteId = parseCreatedId(note.stdout);
+  const wrongType = await runEzer(cwd, ["--json", "puzzle", "close", "--id", noteId]);
+  expect(JSON.parse(wrongType.stderr).error.code).toBe("WRONG_TYPE");
+
+  const usage = await runEzer(cwd, ["--json", "note", "update"]);
+  expect(usage.exitCode).toBe(1);
+  expect(JSON.parse(usage.stderr).error.code).toBe("INVALID_ARGUMENT");
+});
+
+test("finds the store from a subdirectory instead of creating a new one", async () => {
+  const create = await runEzer(cwd, ["note", "create", "--content", "root note"]);
+  const id = parseCreatedId(create.stdout);
+
+  const subdir = join(cwd, "src", "lib");
+  await mkdir(subdir, { recursive: true });
+  const list = await runEzer(subdir, ["note", "list"]);
+  expect(list.exitCode).toBe(0);
+  expect(list.stdout).toContain(`<note id="${id}">`);
+
+  await runEzer(subdir, ["note", "create", "--content", "nested note"]);
+  expect(await readdir(join(cwd, "src"))).toEqual(["lib"]);
+  expect(await readdir(subdir)).toEqual([]);
+});
+
+test("refuses to create a store outside of ezer init", async () => {
+  const empty = await realpath(await mkdtemp(join(tmpdir(), "ezer-empty-")));
+
+  const create = await runEzer(empty, ["note", "create", "--content", "lost"], {
+    env: { EZER_ROOT: "" },
+  });
+  expect(create.exitCode).toBe(1);
+  expect(create.stderr).toContain('Run "ezer init"');
+  expect(await readdir(empty)).toEqual([]);
+
+  const priming = await runEzer(empty);
+  expect(priming.exitCode).toBe(0);
+  expect(priming.stdout).toContain("No ezer store found.");
+
+  const init = await runEzer(empty, ["init", "--prefix", "xy"]);
+  expect(init.exitCode).toBe(0);
+  expect(init.stdout).toContain(`Initialized ezer store in ${join(empty, ".ezer")}`);
+  const again = await runEzer(empty, ["init"]);
+  expect(again.stdout).toContain("already exists");
+
+  const note = await runEzer(empty, ["note", "create", "--content", "found"]);
+  expect(parseCreatedId(note.stdout)).toStartWith("xy-");
+});
+
+test("init creates the store at the git toplevel", async () => {
+  const repo = await realpath(await mkdtemp(join(tmpdir(), "ezer-git-")));
+  Bun.spawnSync(["git", "init", "-q"], { cwd: repo });
+  const subdir = join(repo, "packages", "app");
+  await mkdir(subdir, { recursive: true });
+
+  const init = await runEzer(subdir, ["init"]);
+  expect(init.exitCode).toBe(0);
+  expect(await readdir(repo)).toContain(".ezer");
+  expect(await readdir(subdir)).toEqual([]);
+});
+
+test("--root and EZER_ROOT select the store explicitly", async () => {
+  const other = await realpath(await mkdtemp(join(tmpdir(), "ezer-other-")));
+  await runEzer(other, ["init", "--prefix", "ot"]);
+
+  const viaFlag = await runEzer(cwd, ["--root", other, "note", "create", "--content", "a"]);
+  expect(parseCreatedId(viaFlag.stdout)).toStartWith("ot-");
+
+  const viaEnv = await runEzer(cwd, ["note", "list"], { env: { EZER_ROOT: other } });
+  expect(viaEnv.stdout).toContain(parseCreatedId(viaFlag.stdout));
+
+  const missing = await runEzer(cwd, ["status", "--root=does-not-exist"]);
+  expect(missing.exitCode).toBe(1);
+  expect(missing.stderr).toContain(join(cwd, "does-not-exist"));
+});
+
+test("search ranks matches across notes and closed puzzles with snippets", async () => {
+  const note = await runEzer(cwd, [
+    "note",
+    "create",
+    "--content",
+    "We picked SQLite for the cache because Redis was overkill",
+  ]);
+  const noteId = parseCreatedId(note.stdout);
+  const puzzle = await runEzer(cwd, [
+    "puzzle",
+    "create",
+    "--title",
+    "Cache invalidation bug",
+    "--description",
+    "Stale entries after deploy, fixed with versioned cache keys",
+  ]);
+  const puzzleId = parseCreatedId(puzzle.stdout);
+  await runEzer(cwd, ["puzzle", "close", "--id", puzzleId]);
+  await runEzer(cwd, ["note", "create", "--content", "unrelated"]);
+
+  const search = await runEzer(cwd, ["search", "cache"]);
+  expect(search.exitCode).toBe(0);
+  const lines = search.stdout.split("\n");
+  expect(lines[0]).toBe(`${puzzleId} [puzzle, closed]: Cache invalidation bug`);
+  expect(lines[2]).toBe(`${noteId} [note]:`);
+  expect(search.stdout).toContain("SQLite for the **cache** because");
+  expect(search.stdout).not.toContain("unrelated");
+
+  const notesOnly = await runEzer(cwd, ["search", "cache", "--type", "note", "--json"]);
+  const results = JSON.parse(notesOnly.stdout).results;
+  expect(results.map((result: { entry: { id: string } }) => result.entry.id)).toEqual([noteId]);
+
+  const future = await runEzer(cwd, ["search", "cache", "--since", "2999-01-01"]);
+  expect(future.stdout).toContain("No matches.");
+
+  const invalid = await runEzer(cwd, ["search", "cache", "--status", "done"]);
+  expect(invalid.exitCode).toBe(1);
+});
+
+test("tags round-trip through files and filter lists, status and search", async () => {
+  const auth = await runEzer(cwd, [
+    "note",
+    "create",
+    "--tag",
+    "Auth,security",
+    "--content",
+    "Tokens expire after 1h",
+  ]);
+  const authId = parseCreatedId(auth.stdout);
+  await runEzer(cwd, ["note", "create", "--content", "Untagged token note"]);
+  const puzzle = await runEzer(cwd, ["puzzle", "create", "--title", "Rotate keys", "--tag", "auth"]);
+  const puzzleId = parseCreatedId(puzzle.stdout);
+
+  const file = await readFile(join(cwd, ".ezer", "memory", `${authId}.md`), "utf-8");
+  expect(parseMemoryFile(authId, file).tags).toEqual(["auth", "security"]);
+
+  const notes = await runEzer(cwd, ["note", "list", "--tag", "auth"]);
+  expect(notes.stdout).toContain(`<note id="${authId}" tags="auth,security">`);
+  expect(notes.stdout).not.toContain("Untagged");
+
+  const puzzles = await runEzer(cwd, ["puzzle", "list", "--tag", "auth"]);
+  expect(parseListLines(puzzles.stdout)[0]).toStartWith(`${puzzleId} [ready]: Rotate keys #auth (`);
+  const none = await runEzer(cwd, ["puzzle", "list", "--tag", "security"]);
+  expect(none.stdout).toContain("No puzzles.");
+
+  const status = await runEzer(cwd, ["status", "--tag", "security"]);
+  expect(status.stdout).toContain(authId);
+  expect(status.stdout).not.toContain(puzzleId);
+
+  const search = await runEzer(cwd, ["search", "token", "--tag", "auth", "--json"]);
+  const ids = JSON.parse(search.stdout).results.map((r: { entry: { id: string } }) => r.entry.id);
+  expect(ids).toEqual([authId]);
+
+  await runEzer(cwd, ["tag", "add", "--id", puzzleId, "--tag", "security"]);
+  const remove = await runEzer(cwd, ["tag", "remove", "--id", authId, "--tag", "security"]);
+  expect(remove.stdout).toContain(`Untagged ${authId}, now: #auth`);
+
+  const tags = await runEzer(cwd, ["tags"]);
+  expect(tags.stdout).toBe("#auth (2)\n#security (1)\n");
+
+  const invalid = await runEzer(cwd, ["tag", "add", "--id", authId, "--tag", "has space"]);
+  expect(invalid.exitCode).toBe(1);
+});
+
+test("tag filters still count blockers without the tag", async () => {
+  const main = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Main", "--tag", "x"])).stdout
+  );
+  const blocker = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Blocker", "--blocks", main])).stdout
+  );
+
+  const status = JSON.parse((await runEzer(cwd, ["status", "--tag", "x", "--json"])).stdout);
+  expect(status.puzzles).toEqual([
+    expect.objectContaining({ id: main, state: "blocked", blockedBy: [blocker] }),
+  ]);
+  const blocked = await runEzer(cwd, ["puzzle", "list", "--blocked", "--tag", "x"]);
+  expect(blocked.stdout).toContain(`${main} [blocked]: Main`);
+});
+
+test("ready puzzles sort by priority, then by how much they unblock", async () => {
+  const create = async (title: string, ...extra: string[]) =>
+    parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", title, ...extra])).stdout);
+
+  const low = await create("Low", "--priority", "p3");
+  const plain = await create("Plain");
+  const urgent = await create("Urgent", "--priority", "p0");
+  const deploy = await create("Deploy");
+  const release = await create("Release");
+  const foundation = await create("Foundation");
+  await runEzer(cwd, ["puzzle", "link", "--id", deploy, "--blocks", release]);
+  await runEzer(cwd, ["puzzle", "link", "--id", foundation, "--blocks", deploy]);
+
+  const ready = await runEzer(cwd, ["puzzle", "list", "--ready"]);
+  const order = parseListLines(ready.stdout).map((line) => line.split(" ")[0]);
+  expect(order).toEqual([urgent, foundation, plain, low]);
+  expect(ready.stdout).toContain(`${foundation} [ready]: Foundation (blocks ${deploy}) (p2, unblocks 2, created`);
+
+  const next = await runEzer(cwd, ["puzzle", "next"]);
+  expect(next.stdout).toStartWith(`${urgent} [ready]: Urgent (p0, created`);
+
+  const prioritize = await runEzer(cwd, ["puzzle", "prioritize", "--id", urgent, "--priority", "p3"]);
+  expect(prioritize.stdout).toContain(`Set ${urgent} to p3`);
+  const nextJson = JSON.parse((await runEzer(cwd, ["puzzle", "next", "--json"])).stdout);
+  expect(nextJson.entry).toMatchObject({ id: foundation, priority: "p2", unblocks: 2 });
+
+  const invalid = await runEzer(cwd, ["puzzle", "prioritize", "--id", low, "--priority", "high"]);
+  expect(invalid.exitCode).toBe(1);
+});
+
+test("refuses links that would create a cycle and renders existing cycles", async () => {
+  const create = async (title: string) =>
+    parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", title])).stdout);
+
+  const a = await create("A");
+  const b = await create("B");
+  const c = await create("C");
+  await runEzer(cwd, ["puzzle", "link", "--id", a, "--blocks", b]);
+  await runEzer(cwd, ["puzzle", "link", "--id", b, "--blocks", c]);
+
+  const cyclic = await runEzer(cwd, ["puzzle", "link", "--id", c, "--blocks", a]);
+  expect(cyclic.exitCode).toBe(1);
+  expect(cyclic.stderr).toContain(`${c} → ${a} → ${b} → ${c}`);
+  const self = await runEzer(cwd, ["puzzle", "link", "--id", a, "--blocks", a, "--json"]);
+  expect(JSON.parse(self.stderr).error.code).toBe("CYCLE");
+
+  // A cycle can still arrive on disk, e.g. through a merge
+  const file = join(cwd, ".ezer", "memory", `${c}.md`);
+  const text = await readFile(file, "utf-8");
+  await writeFile(file, text.replace("status: open", `status: open\nblocks: ${a}`));
+
+  const tree = await runEzer(cwd, ["puzzle", "tree", "--id", c]);
+  expect(tree.exitCode).toBe(0);
+  expect(tree.stdout).toContain(`↻ ${c}: C (cycle)`);
+  const list = await runEzer(cwd, ["puzzle", "list"]);
+  expect(list.exitCode).toBe(0);
+});
+
+test("status skips a broken file with a warning and doctor reports it", async () => {
+  const created = await runEzer(cwd, ["note", "create", "--content", "Still visible"]);
+  const noteId = parseCreatedId(created.stdout);
+  const prefix = noteId.split("-")[0];
+  await writeFile(join(cwd, ".ezer", "memory", `${prefix}-aaaaa.md`), "not an entry\n");
+
+  const status = await runEzer(cwd, ["status"]);
+  expect(status.stdout).toContain("Still visible");
+  expect(status.stderr).toContain(`Skipping ${prefix}-aaaaa.md`);
+
+  const doctor = await runEzer(cwd, ["doctor", "--json"]);
+  expect(doctor.exitCode).toBe(1);
+  expect(JSON.parse(doctor.stdout).issues).toEqual([
+    {
+      check: "invalid-frontmatter",
+      file: `${prefix}-aaaaa.md`,
+      message: "does not start with a --- frontmatter block",
+      fixable: false,
+      fixed: false,
+    },
+  ]);
+});
+
+test("installed merge driver merges divergent puzzle edits without conflicts", async () => {
+  const git = (...gitArgs: string[]) =>
+    Bun.spawnSync(["git", "-c", "user.name=t", "-c", "user.email=t@example.com", ...gitArgs], {
+      cwd,
+      env: { ...process.env, PATH: `${join(process.cwd(), "bin")}:${process.env["PATH"]}` },
+    });
+  git("init", "-q", "-b", "main");
+
+  const install = await runEzer(cwd, ["install-merge-driver"]);
+  expect(install.exitCode).toBe(0);
+  expect(await readFile(join(cwd, ".gitattributes"), "utf-8")).toBe(
+    ".ezer/memory/*.md merge=ezer\n"
+  );
+
+  const mainId = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Main", "--description", "Do it"])).stdout
+  );
+  const a = parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", "A"])).stdout);
+  const b = parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", "B"])).stdout);
+  const setup = parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", "Setup"])).stdout);
+  git("add", "-A");
+  git("commit", "-qm", "base");
+
+  git("checkout", "-qb", "feature");
+  await runEzer(cwd, ["puzzle", "close", "--id", mainId]);
+  await runEzer(cwd, ["puzzle", "link", "--id", setup, "--blocks", a]);
+  git("commit", "-qam", "feature");
+
+  git("checkout", "-q", "main");
+  const mainFile = join(cwd, ".ezer", "memory", `${mainId}.md`);
+  await writeFile(mainFile, (await readFile(mainFile, "utf-8")).replace("Do it", "Do it carefully"));
+  await runEzer(cwd, ["puzzle", "link", "--id", setup, "--blocks", b]);
+  git("commit", "-qam", "main");
+
+  const merge = git("merge", "-q", "--no-edit", "feature");
+  expect(merge.exitCode).toBe(0);
+
+  const main = parseMemoryFile(mainId, await readFile(mainFile, "utf-8"));
+  expect(main.status).toBe("closed");
+  expect(main.content).toBe("Do it carefully");
+  const setupFile = await readFile(join(cwd, ".ezer", "memory", `${setup}.md`), "utf-8");
+  expect(parseMemoryFile(setup, setupFile).blocks).toEqual([b, a]);
+});
+
+test("sync commits only .ezer/ and exchanges memory through a remote", async () => {
+  const env = {
+    GIT_AUTHOR_NAME: "t",
+    GIT_AUTHOR_EMAIL: "t@example.com",
+    GIT_COMMITTER_NAME: "t",
+    GIT_COMMITTER_EMAIL: "t@example.com",
+  };
+  const git = (dir: string, ...gitArgs: string[]) =>
+    Bun.spawnSync(["git", ...gitArgs], { cwd: dir, env: { ...process.env, ...env } });
+  const remote = await realpath(await mkdtemp(join(tmpdir(), "ezer-remote-")));
+  git(remote, "init", "-q", "--bare", "-b", "main");
+  git(cwd, "init", "-q", "-b", "main");
+  git(cwd, "remote", "add", "origin", remote);
+  await writeFile(join(cwd, "unrelated.txt"), "not memory\n");
+
+  await runEzer(cwd, ["note", "create", "--content", "First"]);
+  const first = await runEzer(cwd, ["sync"], { env });
+  expect(first.exitCode).toBe(0);
+  expect(first.stdout).toContain("Committed: ezer: +1 note");
+  expect(git(cwd, "status", "--porcelain").stdout.toString()).toBe("?? unrelated.txt\n");
+
+  const clone = await realpath(await mkdtemp(join(tmpdir(), "ezer-clone-")));
+  git(clone, "clone", "-q", remote, ".");
+  const puzzle = parseCreatedId(
+    (await runEzer(clone, ["puzzle", "create", "--title", "From clone"])).stdout
+  );
+  expect((await runEzer(clone, ["sync"], { env })).exitCode).toBe(0);
+
+  await runEzer(cwd, ["note", "create", "--content", "Second"]);
+  const second = await runEzer(cwd, ["sync", "--json"], { env });
+  expect(JSON.parse(second.stdout)).toMatchObject({
+    committed: "ezer: +1 note",
+    pulled: true,
+    pushed: true,
+  });
+  expect(await readdir(join(cwd, ".ezer", "memory"))).toContain(`${puzzle}.md`);
+
+  await runEzer(cwd, ["puzzle", "close", "--id", puzzle]);
+  const offline = await runEzer(cwd, ["sync", "--no-push"], { env });
+  expect(offline.stdout).toContain(`Committed: ezer: closed ${puzzle}`);
+  expect(offline.stdout).not.toContain("Pushed");
+  expect(git(cwd, "status", "-sb").stdout.toString()).toContain("ahead 1");
+});
+
+test("log reads entry history from git and show --at restores old versions", async () => {
+  const env = {
+    GIT_AUTHOR_NAME: "t",
+    GIT_AUTHOR_EMAIL: "t@example.com",
+    GIT_COMMITTER_NAME: "t",
+    GIT_COMMITTER_EMAIL: "t@example.com",
+  };
+  Bun.spawnSync(["git", "init", "-q", "-b", "main"], { cwd });
+  const sync = () => runEzer(cwd, ["sync", "--no-push"], { env });
+
+  const noteId = parseCreatedId(
+    (await runEzer(cwd, ["note", "create", "--content", "Original"])).stdout
+  );
+  const main = parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", "Main"])).stdout);
+  const setup = parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", "Setup"])).stdout);
+  await sync();
+  await runEzer(cwd, ["note", "update", "--id", noteId, "--content", "Revised"]);
+  await runEzer(cwd, ["puzzle", "link", "--id", setup, "--blocks", main]);
+  await runEzer(cwd, ["puzzle", "close", "--id", setup]);
+  await sync();
+  await runEzer(cwd, ["note", "delete", "--id", noteId]);
+  await sync();
+
+  const log = await runEzer(cwd, ["log"]);
+  expect(log.exitCode).toBe(0);
+  expect(log.stdout).toContain(`${noteId} deleted note: Revised`);
+  expect(log.stdout).toContain(`${setup} closed puzzle: Setup`);
+  expect(log.stdout).toContain(`${setup} linked puzzle blocks ${main}: Setup`);
+
+  const noteLog = JSON.parse((await runEzer(cwd, ["log", "--id", noteId, "--json"])).stdout);
+  expect(noteLog.events.map((event: { kind: string }) => event.kind)).toEqual([
+    "deleted",
+    "changed",
+    "created",
+  ]);
+
+  const past = await runEzer(cwd, ["show", "--id", noteId, "--at", "HEAD~2"]);
+  expect(past.stdout).toBe(`<note id="${noteId}">\nOriginal\n</note>\n`);
+  const gone = await runEzer(cwd, ["show", "--id", noteId, "--json"]);
+  expect(JSON.parse(gone.stderr).error.code).toBe("NOT_FOUND");
+
+  const restore = await runEzer(cwd, ["show", "--id", noteId, "--at", "HEAD~1", "--restore"]);
+  expect(restore.stdout).toContain(`Restored ${noteId}`);
+  expect((await runEzer(cwd, ["note", "list"])).stdout).toContain("Revised");
+});
+
+test("archive moves old closed puzzles out of default listings but keeps them reachable", async () => {
+  const old = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Old migration"])).stdout
+  );
+  const recent = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Recent fix"])).stdout
+  );
+  const live = parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", "Live"])).stdout);
+  await runEzer(cwd, ["puzzle", "link", "--id", live, "--blocks", old]);
+  await runEzer(cwd, ["puzzle", "close", "--id", old]);
+  await runEzer(cwd, ["puzzle", "close", "--id", recent]);
+  const oldFile = join(cwd, ".ezer", "memory", `${old}.md`);
+  const text = await readFile(oldFile, "utf-8");
+  await writeFile(oldFile, text.replace(/closedAt: .*/, "closedAt: '2020-01-01T00:00:00.000Z'"));
+
+  const dryRun = await runEzer(cwd, ["archive", "--older-than", "30d", "--dry-run"]);
+  expect(dryRun.stdout).toContain("Would archive 1 puzzle.");
+  const archive = await runEzer(cwd, ["archive", "--older-than", "30d", "--json"]);
+  expect(JSON.parse(archive.stdout).archived).toEqual([old]);
+  expect(await readdir(join(cwd, ".ezer", "archive"))).toEqual([`${old}.md`]);
+
+  const closed = await runEzer(cwd, ["puzzle", "list", "--closed"]);
+  expect(closed.stdout).toContain(recent);
+  expect(closed.stdout).not.toContain(old);
+  const withArchive = await runEzer(cwd, ["puzzle", "list", "--closed", "--include-archived"]);
+  expect(withArchive.stdout).toContain(old);
+  expect((await runEzer(cwd, ["search", "migration"])).stdout).toContain(old);
+
+  const tree = await runEzer(cwd, ["puzzle", "tree", "--id", live]);
+  expect(tree.stdout).toContain(`${old}: Old migration`);
+  const jsonTree = await runEzer(cwd, ["puzzle", "tree", "--id", old, "--json"]);
+  expect(JSON.parse(jsonTree.stdout).entries.map((entry: { id: string }) => entry.id)).toEqual([
+    old,
+    live,
+  ]);
+  const search = await runEzer(cwd, ["search", "migration", "--json"]);
+  expect(JSON.parse(search.stdout).results[0].entry).toMatchObject({ id: old, state: "closed" });
+  expect((await runEzer(cwd, ["doctor"])).stdout).toContain("No problems found.");
+
+  await runEzer(cwd, ["puzzle", "reopen", "--id", old]);
+  expect(await readdir(join(cwd, ".ezer", "archive"))).toEqual([]);
+  expect((await runEzer(cwd, ["puzzle", "list", "--blocked"])).stdout).toContain(old);
+});
+
+test("config settings change default output and listings", async () => {
+  const env = { XDG_CONFIG_HOME: join(cwd, "xdg") };
+  const puzzle = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Done"], { env })).stdout
+  );
+  await runEzer(cwd, ["puzzle", "close", "--id", puzzle], { env });
+
+  const set = await runEzer(cwd, ["config", "set", "puzzle.defaultFilter", "closed"], { env });
+  expect(set.stdout).toContain("Set puzzle.defaultFilter to closed (project)");
+  expect((await runEzer(cwd, ["puzzle", "list"], { env })).stdout).toContain(puzzle);
+
+  await runEzer(cwd, ["config", "set", "status.showClosed", "true", "--user"], { env });
+  expect(await readFile(join(cwd, "xdg", "ezer", "config.yaml"), "utf-8")).toBe(
+    "status:\n  showClosed: true\n"
+  );
+  expect((await runEzer(cwd, ["status"], { env })).stdout).toContain(`- ${puzzle}: Done`);
+
+  await runEzer(cwd, ["config", "set", "output.format", "json"], { env });
+  const json = JSON.parse((await runEzer(cwd, ["config", "get", "output.format"], { env })).stdout);
+  expect(json).toMatchObject({ key: "output.format", value: "json", source: "project" });
+  const text = await runEzer(cwd, ["config", "get", "status.showClosed", "--no-json"], { env });
+  expect(text.stdout).toBe("true\n");
+
+  const unknown = await runEzer(cwd, ["config", "set", "color", "red"], { env });
+  expect(unknown.exitCode).toBe(1);
+  expect(JSON.parse(unknown.stderr).error.code).toBe("INVALID_CONFIG");
+});
+
+test("renders .ezer/priming.md in place of the built-in priming text", async () => {
+  const fork = await runEzer(cwd, ["priming", "--print-default"]);
+  expect(fork.stdout).toContain("{{state}}");
+  expect(fork.stdout).toContain("{{commands}}");
+
+  // The built-in text is the default template
+  await writeFile(join(cwd, ".ezer", "priming.md"), fork.stdout);
+  const forked = await runEzer(cwd);
+  await rm(join(cwd, ".ezer", "priming.md"));
+  expect(forked.stdout).toBe((await runEzer(cwd)).stdout);
+
+  const puzzle = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Review the API"])).stdout
+  );
+  await runEzer(cwd, ["note", "create", "--content", "We squash merge"]);
+  await writeFile(
+    join(cwd, ".ezer", "priming.md"),
+    "# Team rules\n\nOpen work:\n{{ openPuzzles }}\n\n{{notes}}\n"
+  );
+  const custom = await runEzer(cwd, ["priming"]);
+  expect(custom.stdout).toStartWith(`# Team rules\n\nOpen work:\n- ${puzzle}: Review the API\n\n<note`);
+  expect(custom.stdout).not.toContain("How to Work");
+
+  await writeFile(join(cwd, ".ezer", "priming.md"), "{{sate}}\n");
+  const typo = await runEzer(cwd);
+  expect(typo.exitCode).toBe(1);
+  expect(typo.stderr).toContain("unknown placeholder {{sate}}");
+});
+
+test("exports a store and imports it into another with remapped IDs", async () => {
+  const main = parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", "Ship"])).stdout);
+  const blocker = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Test", "--blocks", main])).stdout
+  );
+  const dump = await runEzer(cwd, ["export", "--format", "markdown"]);
+  expect(dump.stdout).toContain(`<!-- ezer:entry ${main} state=blocked -->`);
+
+  const other = await realpath(await mkdtemp(join(tmpdir(), "ezer-import-")));
+  await runEzer(other, ["init", "--prefix", "ot"]);
+  const preview = await runEzer(other, ["import", "--remap", "--dry-run"], { stdin: dump.stdout });
+  expect(preview.stdout).toContain(`(was ${blocker}): Test`);
+  expect(preview.stdout).toContain("Would create 2 entries");
+
+  const imported = await runEzer(other, ["--json", "import", "--remap"], { stdin: dump.stdout });
+  const { created } = JSON.parse(imported.stdout);
+  const ids = Object.fromEntries(created.map(({ id, from }: { id: string; from: string }) => [from, id]));
+  expect(ids[main]).toStartWith("ot-");
+  const blocked = await runEzer(other, ["puzzle", "list", "--blocked"]);
+  expect(blocked.stdout).toContain(`${ids[main]} [blocked]: Ship (p2, blocked by ${ids[blocker]})`);
+
+  const again = await runEzer(other, ["import", "--remap"], { stdin: dump.stdout });
+  expect(again.stdout).toContain("Created 0 entries, merged 0, skipped 2 duplicates.");
+});
+
+test("puzzle tree follows every parent and expands shared puzzles once", async () => {
+  const create = async (title: string, blocks?: string) => {
+    const args = ["puzzle", "create", "--title", title, ...(blocks ? ["--blocks", blocks] : [])];
+    return parseCreatedId((await runEzer(cwd, args)).stdout);
+  };
+  const deploy = await create("Deploy");
+  const docs = await create("Docs");
+  const tests = await create("Tests", deploy);
+  await runEzer(cwd, ["puzzle", "link", "--id", tests, "--blocks", docs]);
+  const fixtures = await create("Fixtures", tests);
+  const mocks = await create("Mocks", tests);
+  const shared = await create("Shared", fixtures);
+  await runEzer(cwd, ["puzzle", "link", "--id", shared, "--blocks", mocks]);
+  const old = await create("Old", tests);
+  await runEzer(cwd, ["puzzle", "close", "--id", old]);
+
+  const tree = await runEzer(cwd, ["puzzle", "tree", "--id", tests]);
+  const lines = tree.stdout.split("\n");
+  expect(lines).toContain(`↑ ${deploy}: Deploy [blocked] (4 open blockers)`);
+  expect(lines).toContain(`↑ ${docs}: Docs [blocked] (4 open blockers)`);
+  expect(lines).toContain(`→ ${tests}: Tests [blocked] (3 open blockers)`);
+  expect(lines).toContain(`  → ${old}: Old [closed]`);
+  expect(lines.filter((line) => line.includes(`${shared}: Shared [ready]`))).toEqual([
+    `    → ${shared}: Shared [ready]`,
+    `    → ${shared}: Shared [ready] (see above)`,
+  ]);
+
+  const open = await runEzer(cwd, ["puzzle", "tree", "--id", tests, "--no-closed"]);
+  expect(open.stdout).not.toContain(old);
+  const json = JSON.parse(
+    (await runEzer(cwd, ["puzzle", "tree", "--id", tests, "--no-closed", "--json"])).stdout
+  );
+  expect(json.entries.map((entry: { id: string }) => entry.id).sort()).toEqual(
+    [deploy, docs, tests, fixtures, mocks, shared].sort()
+  );
+});
+
+test("puzzle start claims a puzzle until its lease runs out", async () => {
+  const env = { EZER_AGENT: "agent-1" };
+  const create = async (title: string) =>
+    parseCreatedId((await runEzer(cwd, ["puzzle", "create", "--title", title])).stdout);
+  const alpha = await create("Alpha");
+  const beta = await create("Beta");
+
+  const start = await runEzer(cwd, ["puzzle", "start", "--id", alpha], { env });
+  expect(start.stdout).toContain(`Started ${alpha} by agent-1 until `);
+  const taken = await runEzer(cwd, ["puzzle", "start", "--id", alpha, "--by", "agent-2", "--json"]);
+  expect(JSON.parse(taken.stderr).error.code).toBe("CLAIMED");
+
+  const ready = await runEzer(cwd, ["puzzle", "list", "--ready"]);
+  expect(ready.stdout).toContain(beta);
+  expect(ready.stdout).not.toContain(alpha);
+  expect((await runEzer(cwd, ["puzzle", "list", "--in-progress"])).stdout).toContain(
+    `${alpha} [in-progress]: Alpha (p2, by agent-1 until `
+  );
+  expect((await runEzer(cwd, ["status"])).stdout).toContain(
+    `### In Progress\n- ${alpha}: Alpha (by agent-1 until `
+  );
+
+  // An expired lease returns the puzzle to the ready queue
+  await runEzer(cwd, ["puzzle", "start", "--id", beta, "--by", "agent-2", "--lease", "1h"]);
+  const file = join(cwd, ".ezer", "memory", `${beta}.md`);
+  const text = await readFile(file, "utf-8");
+  await writeFile(file, text.replace(/leaseUntil: .*/, "leaseUntil: '2020-01-01T00:00:00.000Z'"));
+  expect((await runEzer(cwd, ["puzzle", "next"])).stdout).toContain(`${beta} [ready]`);
+  const steal = await runEzer(cwd, ["puzzle", "start", "--id", beta, "--json"], { env });
+  expect(JSON.parse(steal.stdout).entry).toMatchObject({
+    state: "in-progress",
+    claimedBy: "agent-1",
+  });
+
+  await runEzer(cwd, ["puzzle", "stop", "--id", alpha]);
+  await runEzer(cwd, ["puzzle", "close", "--id", beta]);
+  expect((await runEzer(cwd, ["puzzle", "list", "--ready"])).stdout).toContain(alpha);
+  expect(await readFile(file, "utf-8")).not.toContain("claimedBy");
+});
+
+test("session end summarizes the session and the next priming shows it", async () => {
+  const started = await runEzer(cwd, ["session", "start", "--json"]);
+  const sessionId = JSON.parse(started.stdout).entry.id;
+  const puzzleId = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Wire up sessions"])).stdout
+  );
+  await runEzer(cwd, ["puzzle", "close", "--id", puzzleId]);
+
+  const end = await runEzer(cwd, ["session", "end", "--summary", "Added sessions"]);
+  expect(end.stdout).toContain(`Session ${sessionId}: `);
+  expect(end.stdout).toContain(`Added sessions\nClosed:\n- ${puzzleId}: Wire up sessions`);
+  expect((await runEzer(cwd, ["session", "end", "--json"])).exitCode).not.toBe(0);
+
+  const priming = (await runEzer(cwd, [])).stdout;
+  expect(priming).toContain(`### Last Session\nSession ${sessionId}: `);
+  expect((await runEzer(cwd, ["session", "show", "--last"])).stdout).toBe(end.stdout);
+  expect((await runEzer(cwd, ["show", "--id", sessionId])).stdout).toBe(end.stdout);
+});
+
+test("about lists entries referencing a path and doctor --refs flags missing files", async () => {
+  await mkdir(join(cwd, "src", "lib"), { recursive: true });
+  await writeFile(join(cwd, "src", "lib", "parser.ts"), "");
+  const noteId = parseCreatedId(
+    (
+      await runEzer(cwd, [
+        "note",
+        "create",
+        "--ref",
+        "src/lib/parser.ts:10-40",
+        "--content",
+        "Parser handles quoting",
+      ])
+    ).stdout
+  );
+  const puzzleId = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Split lib", "--ref", "src/lib"])).stdout
+  );
+
+  // Paths are relative to the current directory
+  const about = await runEzer(join(cwd, "src"), ["about", "lib/parser.ts"]);
+  expect(about.stdout).toContain(
+    `${noteId} [note]: Parser handles quoting\n  src/lib/parser.ts:10-40`
+  );
+  expect(about.stdout).toContain(`${puzzleId} [puzzle, ready]: Split lib\n  src/lib`);
+  expect((await runEzer(cwd, ["about", "README.md"])).stdout).toBe(
+    "No entries reference README.md.\n"
+  );
+
+  expect((await runEzer(cwd, ["doctor", "--refs"])).exitCode).toBe(0);
+  await runEzer(cwd, ["puzzle", "update", "--id", puzzleId, "--ref", "src/gone.ts"]);
+  const doctor = await runEzer(cwd, ["doctor", "--refs", "--json"]);
+  expect(doctor.exitCode).toBe(1);
+  expect(JSON.parse(doctor.stdout).issues).toEqual([
+    expect.objectContaining({ check: "missing-ref", file: `${puzzleId}.md` }),
+  ]);
+  expect((await runEzer(cwd, ["doctor"])).exitCode).toBe(0);
+});
+
+test("undo reverts a note delete and journal lists what is left", async () => {
+  const id = parseCreatedId(
+    (await runEzer(cwd, ["note", "create", "--content", "Keep me"])).stdout
+  );
+  await runEzer(cwd, ["note", "delete", "--id", id]);
+  expect((await runEzer(cwd, ["journal"])).stdout).toMatch(
+    new RegExp(`^#2 \\S+ deleteNote -${id}\\n#1 \\S+ createNote \\+${id}\\n$`)
+  );
+
+  const undo = await runEzer(cwd, ["undo", "--json"]);
+  expect(JSON.parse(undo.stdout).undone).toEqual([
+    expect.objectContaining({ seq: 2, op: "deleteNote", summary: `-${id}` }),
+  ]);
+  expect((await runEzer(cwd, ["note", "list"])).stdout).toContain("Keep me");
+  expect((await runEzer(cwd, ["undo", "--steps", "0"])).exitCode).not.toBe(0);
+});
+
+test("parallel ezer processes do not lose or corrupt each other's writes", async () => {
+  const count = 10;
+  const target = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Target"])).stdout
+  );
+  const created = await Promise.all(
+    Array.from({ length: count }, (_, i) =>
+      runEzer(cwd, ["puzzle", "create", "--title", `Blocker ${i}`])
+    )
+  );
+  const blockers = created.map(({ stdout }) => parseCreatedId(stdout));
+  const linked = await Promise.all(
+    blockers.map((id) => runEzer(cwd, ["puzzle", "link", "--id", target, "--blocks", id]))
+  );
+  expect(linked.map(({ exitCode }) => exitCode)).toEqual(Array(count).fill(0));
+
+  const entry = parseMemoryFile(
+    target,
+    await readFile(join(cwd, ".ezer", "memory", `${target}.md`), "utf-8")
+  );
+  expect(entry.blocks?.toSorted()).toEqual(blockers.toSorted());
+  expect((await runEzer(cwd, ["doctor"])).stdout).toBe("No problems found.\n");
+  expect((await readdir(join(cwd, ".ezer"))).toSorted()).toEqual([
+    ".gitignore",
+    "config.yaml",
+    "journal.jsonl",
+    "memory",
+  ]);
+  const journal = await runEzer(cwd, ["journal", "--limit", "100", "--json"]);
+  expect(JSON.parse(journal.stdout).operations).toHaveLength(1 + 2 * count);
+});
+
+test("--id and --ids accept unique abbreviations of an ID", async () => {
+  const id = parseCreatedId(
+    (await runEzer(cwd, ["puzzle", "create", "--title", "Abbrev"])).stdout
+  );
+  const random = id.slice(id.lastIndexOf("-") + 1);
+
+  const closed = await runEzer(cwd, ["puzzle", "close", "--id", random.slice(0, 3)]);
+  expect(closed.exitCode).toBe(0);
+  const described = await runEzer(cwd, ["puzzle", "describe", "--ids", random.toUpperCase()]);
+  expect(described.stdout).toContain(`<puzzle id="${id}" title="Abbrev">`);
+
+  const twin = `${id.slice(0, -2)}${random.endsWith("zz") ? "yy" : "zz"}`;
+  await writeFile(join(cwd, ".ezer", "memory", `${twin}.md`), "---\ntype: note\n---\nTwin\n");
+  const ambiguous = await runEzer(cwd, ["show", "--id", random.slice(0, 3), "--json"]);
+  expect(ambiguous.exitCode).not.toBe(0);
+  const error = JSON.parse(ambiguous.stderr).error;
+  expect(error.code).toBe("AMBIGUOUS");
+  expect(error.message).toContain(`${id} [puzzle]: Abbrev`);
+  expect(error.message).toContain(`${twin} [note]: Twin`);
+});
+
+test("tui refuses to start without a terminal", async () => {
+  const result = await runEzer(cwd, ["tui", "--json"]);
+  expect(result.exitCode).not.toBe(0);
+  expect(JSON.parse(result.stderr).error).toEqual({
+    code: "INVALID_ARGUMENT",
+    message: "ezer tui needs an interactive terminal",
+  });
+});
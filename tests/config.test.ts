@@ -0,0 +1,68 @@
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore } from "../src/index.ts";
+
+let store: EzerStore;
+let userConfigFile: string;
+let warnings: string[];
+
+beforeEach(async () => {
+  const dir = await mkdtemp(join(tmpdir(), "ezer-config-"));
+  userConfigFile = join(dir, "user", "ezer", "config.yaml");
+  warnings = [];
+  store = new EzerStore({
+    root: join(dir, "project"),
+    userConfigFile,
+    onWarning: (message) => warnings.push(message),
+  });
+  await store.init("pr");
+});
+
+test("layers defaults, then the user config, then the project config", async () => {
+  await store.setSetting("ids.randomLength", "8", "user");
+  await store.setSetting("notes.softLimit", "100", "user");
+  await store.setSetting("notes.softLimit", "200");
+
+  const { settings, sources } = await store.loadSettings();
+  expect(settings["ids.randomLength"]).toBe(8);
+  expect(sources["ids.randomLength"]).toBe("user");
+  expect(settings["notes.softLimit"]).toBe(200);
+  expect(sources["notes.softLimit"]).toBe("project");
+  expect(sources["notes.hardLimit"]).toBe("default");
+  expect(settings.prefix).toBe("pr");
+
+  expect(await readFile(store.configFile, "utf-8")).toBe("prefix: pr\nnotes:\n  softLimit: 200\n");
+  const note = await store.createNote("x".repeat(201));
+  expect(note.id).toMatch(/^pr-[a-z2-7]{8}$/);
+  expect(warnings[0]).toContain("exceeds soft limit of 200 bytes");
+});
+
+test("enforces the configured hard limit", async () => {
+  await store.setSetting("notes.softLimit", "5");
+  await store.setSetting("notes.hardLimit", "10");
+  await expect(store.createNote("x".repeat(11))).rejects.toMatchObject({
+    code: "NOTE_LIMIT_EXCEEDED",
+  });
+});
+
+test("rejects unknown keys and invalid values with the file and key named", async () => {
+  await expect(store.setSetting("notes.sofLimit", "5")).rejects.toMatchObject({
+    code: "INVALID_CONFIG",
+    message: expect.stringContaining('Unknown setting "notes.sofLimit"'),
+  });
+  await expect(store.setSetting("output.format", "xml")).rejects.toMatchObject({
+    message: "output.format must be one of text, json",
+  });
+  // A soft limit above the hard limit is rolled back
+  await expect(store.setSetting("notes.softLimit", "40000")).rejects.toMatchObject({
+    code: "INVALID_CONFIG",
+  });
+  expect((await store.getSettings())["notes.softLimit"]).toBe(30000);
+
+  await writeFile(store.configFile, "prefix: pr\nstatus:\n  showClosd: true\n");
+  await expect(store.getSettings()).rejects.toMatchObject({
+    message: expect.stringContaining(`${store.configFile}: unknown setting "status.showClosd"`),
+  });
+});
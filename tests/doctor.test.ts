@@ -0,0 +1,106 @@
+import { mkdtemp, readdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore, parseMemoryFile } from "../src/index.ts";
+import { diagnoseStore } from "../src/lib/doctor.ts";
+
+let store: EzerStore;
+let warnings: string[];
+
+beforeEach(async () => {
+  warnings = [];
+  store = new EzerStore({
+    root: await mkdtemp(join(tmpdir(), "ezer-doctor-")),
+    userConfigFile: null,
+    onWarning: (message) => warnings.push(message),
+  });
+  await store.init("ez");
+});
+
+async function writeEntry(file: string, text: string): Promise<void> {
+  await writeFile(join(store.memoryDir, file), text, "utf-8");
+}
+
+test("a healthy store has no issues", async () => {
+  const main = await store.createPuzzle("Main");
+  const setup = await store.createPuzzle("Setup");
+  await store.updatePuzzleBlocks(setup.id, main.id, "set");
+  await store.createNote("note");
+
+  expect(await diagnoseStore(store)).toEqual([]);
+});
+
+test("reports every kind of problem and repairs the safe ones", async () => {
+  const puzzle = await store.createPuzzle("Main");
+  await writeEntry("ez-aaaaa.md", "no frontmatter here\n");
+  await writeEntry("ez-bbbbb.md", "---\ntype: memo\ncreated: 2026-01-01T00:00:00.000Z\n---\nx\n");
+  await writeEntry("ez-ccccc.md", "---\ntype: note\n---\nno created\n");
+  await writeEntry(
+    "ez-ddddd.md",
+    `---\ntype: puzzle\ncreated: 2026-01-01T00:00:00.000Z\ntitle: Side\nstatus: open\nblocks:\n  - not an id\n  - ez-zzzzz\n  - ${puzzle.id}\n---\n`
+  );
+  await writeEntry(
+    "EZ-EEEEE.md",
+    "---\ntype: note\ncreated: 2026-01-01T00:00:00.000Z\n---\nshouting\n"
+  );
+  await writeEntry(
+    "ez-fffff.md",
+    "---\ntype: note\ncreated: 2026-01-01T00:00:00.000Z\n---\n<<<<<<< HEAD\nours\n=======\ntheirs\n>>>>>>> branch\n"
+  );
+
+  const issues = await diagnoseStore(store);
+  expect(issues.map(({ check, file, fixable }) => ({ check, file, fixable }))).toEqual([
+    { check: "id-mismatch", file: "EZ-EEEEE.md", fixable: true },
+    { check: "invalid-frontmatter", file: "ez-aaaaa.md", fixable: false },
+    { check: "unknown-type", file: "ez-bbbbb.md", fixable: false },
+    { check: "missing-created", file: "ez-ccccc.md", fixable: true },
+    { check: "invalid-blocks", file: "ez-ddddd.md", fixable: true },
+    { check: "conflict-markers", file: "ez-fffff.md", fixable: false },
+    { check: "dangling-blocks", file: "ez-ddddd.md", fixable: true },
+  ]);
+
+  const fixed = await diagnoseStore(store, { fix: true });
+  expect(fixed.filter((issue) => issue.fixed).length).toBe(4);
+
+  const remaining = await diagnoseStore(store);
+  expect(remaining.map((issue) => issue.check)).toEqual([
+    "invalid-frontmatter",
+    "unknown-type",
+    "conflict-markers",
+  ]);
+  const side = parseMemoryFile("ez-ddddd", await readFile(join(store.memoryDir, "ez-ddddd.md"), "utf-8"));
+  expect(side.blocks).toEqual([puzzle.id]);
+  expect(side.title).toBe("Side");
+  expect(await readdir(store.memoryDir)).toContain("ez-eeeee.md");
+
+  expect((await store.listJournal()).at(-1)?.op).toBe("repairFiles");
+  await store.undo();
+  const restored = await diagnoseStore(store);
+  expect(restored.map((issue) => issue.check)).toEqual(issues.map((issue) => issue.check));
+});
+
+test("reports cycles without trying to break them", async () => {
+  const a = await store.createPuzzle("A");
+  const b = await store.createPuzzle("B");
+  await store.updatePuzzleBlocks(a.id, b.id, "set");
+  const file = join(store.memoryDir, `${b.id}.md`);
+  const text = await readFile(file, "utf-8");
+  await writeFile(file, text.replace("status: open", `status: open\nblocks: ${a.id}`));
+
+  const issues = await diagnoseStore(store, { fix: true });
+  expect(issues).toHaveLength(1);
+  expect(issues[0]).toMatchObject({ check: "cycle", fixable: false, fixed: false });
+  expect(issues[0]?.message).toContain(" → ");
+});
+
+test("listing skips broken files with a warning instead of hiding everything", async () => {
+  const note = await store.createNote("still here");
+  await writeEntry("ez-aaaaa.md", "no frontmatter here\n");
+
+  const entries = await store.listMemoryEntries();
+  expect(entries.map((entry) => entry.id)).toEqual([note.id]);
+  expect(warnings).toEqual([
+    'Warning: Skipping ez-aaaaa.md: Invalid memory file format for ez-aaaaa. Run "ezer doctor" for details.',
+  ]);
+});
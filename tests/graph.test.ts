@@ -0,0 +1,68 @@
+import { expect, test } from "bun:test";
+import type { MemoryEntry } from "../src/index.ts";
+import { buildPuzzleGraph, renderDot, renderMermaid } from "../src/lib/graph.ts";
+
+function puzzle(id: string, title: string, blocks: string[] = [], closed = false): MemoryEntry {
+  return {
+    id,
+    type: "puzzle",
+    content: "",
+    created: "2026-01-01T00:00:00.000Z",
+    title,
+    status: closed ? "closed" : "open",
+    ...(blocks.length > 0 ? { blocks } : {}),
+  };
+}
+
+// ez-setup → ez-tests → ez-deploy, ez-docs → ez-deploy, and an unrelated ez-other
+const PUZZLES = [
+  puzzle("ez-deploy", "Deploy"),
+  puzzle("ez-tests", "Tests", ["ez-deploy"]),
+  puzzle("ez-setup", "Setup", ["ez-tests"], true),
+  puzzle("ez-docs", "Docs", ["ez-deploy"]),
+  puzzle("ez-other", "Other"),
+];
+
+const ids = (graph: ReturnType<typeof buildPuzzleGraph>) =>
+  graph.nodes.map((node) => node.puzzle.id);
+
+test("draws every puzzle and link, styled by state", () => {
+  const mermaid = renderMermaid(buildPuzzleGraph(PUZZLES));
+  expect(mermaid).toContain('ez_deploy["ez-deploy: Deploy"]:::blocked');
+  expect(mermaid).toContain('ez_setup["ez-setup: Setup"]:::closed');
+  expect(mermaid).toContain('ez_other["ez-other: Other"]:::ready');
+  expect(mermaid).toContain("ez_setup --> ez_tests");
+  expect(mermaid).toContain("classDef blocked fill:");
+
+  const dot = renderDot(buildPuzzleGraph(PUZZLES));
+  expect(dot).toStartWith("digraph puzzles {");
+  expect(dot).toContain('"ez-tests" -> "ez-deploy";');
+  expect(dot).toContain('"ez-docs" [label="ez-docs: Docs", fillcolor="#dafbe1"');
+});
+
+test("limits the graph to a root, a depth and open puzzles", () => {
+  // Directed paths only: ez-docs blocks the same puzzle as ez-tests but is not connected to it
+  expect(ids(buildPuzzleGraph(PUZZLES, { rootId: "ez-tests" }))).toEqual([
+    "ez-deploy",
+    "ez-tests",
+    "ez-setup",
+  ]);
+  expect(ids(buildPuzzleGraph(PUZZLES, { rootId: "ez-deploy", depth: 1 }))).toEqual([
+    "ez-deploy",
+    "ez-tests",
+    "ez-docs",
+  ]);
+  // Without a root, depth counts from puzzles that block nothing
+  expect(ids(buildPuzzleGraph(PUZZLES, { depth: 0 }))).toEqual(["ez-deploy", "ez-other"]);
+
+  const open = buildPuzzleGraph(PUZZLES, { hideClosed: true });
+  expect(ids(open)).not.toContain("ez-setup");
+  expect(open.edges).not.toContainEqual({ from: "ez-setup", to: "ez-tests" });
+  expect(() => buildPuzzleGraph(PUZZLES, { rootId: "ez-nopee" })).toThrow("not found");
+});
+
+test("escapes titles", () => {
+  const graph = buildPuzzleGraph([puzzle("ez-quote", 'Say "hi" \\ bye')]);
+  expect(renderMermaid(graph)).toContain('["ez-quote: Say #quot;hi#quot; \\ bye"]');
+  expect(renderDot(graph)).toContain('label="ez-quote: Say \\"hi\\" \\\\ bye"');
+});
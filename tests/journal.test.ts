@@ -0,0 +1,71 @@
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore } from "../src/index.ts";
+import { describeChanges } from "../src/lib/journal.ts";
+
+let store: EzerStore;
+
+beforeEach(async () => {
+  const dir = await mkdtemp(join(tmpdir(), "ezer-journal-"));
+  store = new EzerStore({ root: dir, userConfigFile: null });
+  await store.init("ez");
+});
+
+test("undoing replaceNotes restores the original notes with their IDs and timestamps", async () => {
+  const first = await store.createNote("Use bun:test", { tags: ["testing"] });
+  const second = await store.createNote("Tests live in tests/");
+  const read = (id: string) => readFile(join(store.memoryDir, `${id}.md`), "utf-8");
+  const [firstText, secondText] = [await read(first.id), await read(second.id)];
+  const replacement = await store.replaceNotes([first.id, second.id], "Tests: bun:test in tests/");
+
+  const journal = await store.listJournal();
+  expect(journal.map((operation) => operation.op)).toEqual([
+    "createNote",
+    "createNote",
+    "replaceNotes",
+  ]);
+  expect(describeChanges(journal[2]!.changes)).toBe(
+    `-${first.id} -${second.id} +${replacement.id}`
+  );
+
+  const [undone] = await store.undo();
+  expect(undone?.op).toBe("replaceNotes");
+  expect(await store.readMemoryEntry(first.id)).toEqual(first);
+  expect(await read(first.id)).toBe(firstText);
+  expect(await read(second.id)).toBe(secondText);
+  await expect(store.readMemoryEntry(replacement.id)).rejects.toThrow("not found");
+  expect(await store.listJournal()).toHaveLength(2);
+});
+
+test("undoes several steps, including archiving, and skips no-op writes", async () => {
+  const puzzle = await store.createPuzzle("Ship it");
+  await store.addTags(puzzle.id, []);
+  await store.updatePuzzleStatus(puzzle.id, "closed");
+  await store.archiveClosedPuzzles(new Date(Date.now() + 1000));
+  expect((await store.listJournal()).map((operation) => operation.op)).toEqual([
+    "createPuzzle",
+    "updatePuzzleStatus",
+    "archiveClosedPuzzles",
+  ]);
+
+  await store.undo(2);
+  expect(await store.readMemoryEntry(puzzle.id)).toMatchObject({ status: "open" });
+  expect(await store.listMemoryEntries("puzzle")).toHaveLength(1);
+  await store.undo(5);
+  expect(await store.listMemoryEntries()).toEqual([]);
+  await expect(store.undo()).rejects.toThrow("Nothing to undo");
+});
+
+test("refuses to undo over later changes unless forced", async () => {
+  const note = await store.createNote("Original");
+  const path = join(store.memoryDir, `${note.id}.md`);
+  await writeFile(path, (await readFile(path, "utf-8")).replace("Original", "Edited by hand"));
+
+  await expect(store.undo()).rejects.toThrow(`${note.id} changed after operation 1`);
+  expect(await store.readMemoryEntry(note.id)).toMatchObject({ content: "Edited by hand" });
+  await store.undo(1, { force: true });
+  expect(await store.listMemoryEntries()).toEqual([]);
+  expect(await readFile(join(store.ezerDir, ".gitignore"), "utf-8")).toBe("journal.jsonl\nlock\n");
+});
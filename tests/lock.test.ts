@@ -0,0 +1,81 @@
+import { mkdtemp, readdir, readFile, utimes, writeFile } from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore } from "../src/index.ts";
+import { withLock } from "../src/lib/lock.ts";
+
+let dir: string;
+let lockFile: string;
+let warnings: string[];
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "ezer-lock-"));
+  lockFile = join(dir, "lock");
+  warnings = [];
+});
+
+const onWarning = (message: string) => warnings.push(message);
+
+test("runs one holder at a time and removes the lock afterwards", async () => {
+  const events: string[] = [];
+  const hold = (name: string) =>
+    withLock(lockFile, async () => {
+      events.push(`${name} start`);
+      await Bun.sleep(20);
+      events.push(`${name} end`);
+    });
+  await Promise.all([hold("a"), hold("b"), hold("c")]);
+
+  expect(events).toHaveLength(6);
+  for (let i = 0; i < events.length; i += 2) {
+    expect(events[i + 1]).toBe(events[i]!.replace("start", "end"));
+  }
+  expect(await readdir(dir)).toEqual([]);
+});
+
+test("breaks locks left by dead processes and old locks", async () => {
+  const exited = Bun.spawn(["true"]);
+  await exited.exited;
+  const lock = { pid: exited.pid, host: hostname(), acquiredAt: new Date().toISOString() };
+  await writeFile(lockFile, JSON.stringify({ ...lock, token: "dead" }));
+  expect(await withLock(lockFile, async () => "ran", { onWarning })).toBe("ran");
+  expect(warnings).toEqual([
+    `Warning: Breaking stale lock ${lockFile}: process ${exited.pid} is no longer running`,
+  ]);
+
+  // A lock from another machine is only stale once it is old
+  const old = new Date(Date.now() - 120_000).toISOString();
+  await writeFile(lockFile, JSON.stringify({ ...lock, host: "elsewhere", acquiredAt: old }));
+  expect(await withLock(lockFile, async () => "ran", { onWarning })).toBe("ran");
+  expect(warnings[1]).toContain("it was taken 120s ago");
+
+  // So is an empty lock file, judged by its modification time
+  await writeFile(lockFile, "");
+  await utimes(lockFile, new Date(old), new Date(old));
+  expect(await withLock(lockFile, async () => "ran", { onWarning })).toBe("ran");
+});
+
+test("gives up with LOCKED while a live process holds the lock", async () => {
+  const lock = { pid: process.pid, host: hostname(), acquiredAt: new Date().toISOString() };
+  await writeFile(lockFile, JSON.stringify({ ...lock, token: "live" }));
+  const attempt = withLock(lockFile, async () => "ran", { timeoutMs: 100 });
+  await expect(attempt).rejects.toThrow("Timed out waiting for");
+  expect(JSON.parse(await readFile(lockFile, "utf-8")).token).toBe("live");
+});
+
+test("concurrent store calls in one process do not lose updates", async () => {
+  const store = new EzerStore({ root: dir, userConfigFile: null });
+  await store.init("ez");
+  const target = await store.createPuzzle("Target");
+  const blockers = await Promise.all(
+    Array.from({ length: 8 }, (_, i) => store.createPuzzle(`Blocker ${i}`))
+  );
+  await Promise.all(
+    blockers.map((blocker) => store.updatePuzzleBlocks(target.id, blocker.id, "append"))
+  );
+
+  const blocks = (await store.readMemoryEntry(target.id)).blocks ?? [];
+  expect(blocks.toSorted()).toEqual(blockers.map((blocker) => blocker.id).toSorted());
+  expect(await store.listJournal()).toHaveLength(1 + 8 + 8);
+});
@@ -0,0 +1,153 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore, type JsonEntry } from "../src/index.ts";
+import { createMcpHandler } from "../src/lib/mcp.ts";
+
+const BIN_PATH = join(process.cwd(), "bin", "ezer");
+// Keeps the developer's own ~/.config/ezer/config.yaml out of the tests
+const ENV = { ...process.env, XDG_CONFIG_HOME: await mkdtemp(join(tmpdir(), "ezer-xdg-")) };
+
+let cwd: string;
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), "ezer-mcp-"));
+  Bun.spawnSync(["bun", BIN_PATH, "init", "--prefix", "mc"], { cwd, env: ENV });
+});
+
+/** The parts of `ezer mcp` responses these tests look at. */
+interface McpResponse {
+  jsonrpc: "2.0";
+  id: number | null;
+  result?: {
+    serverInfo?: { name: string };
+    protocolVersion?: string;
+    tools?: Array<{ name: string }>;
+    resources?: Array<{ uri: string }>;
+    prompts?: Array<{ name: string }>;
+    content?: Array<{ type: "text"; text: string }>;
+    isError?: boolean;
+    contents?: Array<{ uri: string; text: string }>;
+    messages?: Array<{ content: { type: "text"; text: string } }>;
+  };
+  error?: { code: number; message: string };
+}
+
+/** Send a scripted sequence of JSON-RPC messages to `ezer mcp` and collect responses. */
+async function runMcpSession(messages: object[]): Promise<McpResponse[]> {
+  const proc = Bun.spawn(["bun", BIN_PATH, "mcp"], {
+    cwd,
+    env: ENV,
+    stdin: "pipe",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  proc.stdin.write(messages.map((message) => `${JSON.stringify(message)}\n`).join(""));
+  proc.stdin.end();
+  const [stdout, exitCode] = await Promise.all([new Response(proc.stdout).text(), proc.exited]);
+  expect(exitCode).toBe(0);
+  return stdout
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line) as McpResponse);
+}
+
+function callTool(id: number, name: string, args: object) {
+  return { jsonrpc: "2.0", id, method: "tools/call", params: { name, arguments: args } };
+}
+
+/** The text a tool call returned. */
+function toolText(response: McpResponse | undefined): string {
+  return response?.result?.content?.[0]?.text ?? "";
+}
+
+test("initializes and lists tools, resources and prompts", async () => {
+  const [init, tools, resources, prompts] = await runMcpSession([
+    { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-06-18" } },
+    { jsonrpc: "2.0", method: "notifications/initialized" },
+    { jsonrpc: "2.0", id: 2, method: "tools/list" },
+    { jsonrpc: "2.0", id: 3, method: "resources/list" },
+    { jsonrpc: "2.0", id: 4, method: "prompts/list" },
+  ]);
+
+  expect(init?.result?.serverInfo?.name).toBe("ezer");
+  expect(init?.result?.protocolVersion).toBe("2025-06-18");
+  expect(tools?.result?.tools?.map((tool) => tool.name)).toEqual([
+    "createNote",
+    "updateNote",
+    "replaceNotes",
+    "createPuzzle",
+    "updatePuzzleStatus",
+    "updatePuzzleBlocks",
+    "renderPuzzleTree",
+  ]);
+  expect(resources?.result?.resources?.map((r) => r.uri)).toEqual([
+    "ezer://state",
+    "ezer://priming",
+  ]);
+  expect(prompts?.result?.prompts?.[0]?.name).toBe("priming");
+});
+
+test("tools operate on the store and state is readable as a resource", async () => {
+  const responses = await runMcpSession([
+    callTool(1, "createPuzzle", { title: "Main" }),
+    callTool(2, "createNote", { content: "from mcp" }),
+    { jsonrpc: "2.0", id: 3, method: "resources/read", params: { uri: "ezer://state" } },
+    callTool(4, "updateNote", { id: "mc-aaaaa", content: "missing" }),
+    { jsonrpc: "2.0", id: 5, method: "prompts/get", params: { name: "priming" } },
+    { jsonrpc: "2.0", id: 6, method: "bogus" },
+  ]);
+  const [puzzle, note, state, missing, prompt, bogus] = responses;
+
+  const created = JSON.parse(toolText(puzzle)) as JsonEntry;
+  expect(created).toMatchObject({ title: "Main", state: "ready" });
+  const noteEntry = JSON.parse(toolText(note)) as JsonEntry;
+  expect(noteEntry.content).toBe("from mcp");
+
+  const stateText = state?.result?.contents?.[0]?.text;
+  expect(stateText).toContain(`- ${created.id}: Main`);
+  expect(stateText).toContain(`<note id="${noteEntry.id}">`);
+
+  expect(missing?.result?.isError).toBe(true);
+  expect(toolText(missing)).toBe("mc-aaaaa not found");
+
+  expect(prompt?.result?.messages?.[0]?.content.text).toContain("=== EZER ===");
+  expect(bogus?.error?.code).toBe(-32601);
+});
+
+test("reports bad requests as invalid params and failures as internal errors", async () => {
+  const store = new EzerStore({ root: cwd, userConfigFile: null });
+  const handle = createMcpHandler(store);
+  const read = (uri: string) =>
+    handle({ jsonrpc: "2.0", id: 1, method: "resources/read", params: { uri } });
+
+  expect((await read("ezer://nothing"))?.error?.code).toBe(-32602);
+  store.listMemoryEntries = async () => {
+    throw new Error("EIO: i/o error, scandir");
+  };
+  expect((await read("ezer://state"))?.error).toEqual({
+    code: -32603,
+    message: "EIO: i/o error, scandir",
+  });
+});
+
+test("tools accept abbreviated IDs like the CLI", async () => {
+  const store = new EzerStore({ root: cwd, userConfigFile: null });
+  const main = await store.createPuzzle("Main");
+  const setup = await store.createPuzzle("Setup");
+  const handle = createMcpHandler(store);
+  const abbreviate = (id: string) => id.slice(id.lastIndexOf("-") + 1, -1);
+
+  const linked = await handle(
+    callTool(1, "updatePuzzleBlocks", { id: abbreviate(setup.id), blocks: abbreviate(main.id) })
+  );
+  expect(JSON.parse(toolText(linked as McpResponse))).toMatchObject({
+    id: setup.id,
+    blocks: [main.id],
+  });
+  const closed = await handle(
+    callTool(2, "updatePuzzleStatus", { id: setup.id.toUpperCase(), status: "closed" })
+  );
+  expect(JSON.parse(toolText(closed as McpResponse))).toMatchObject({ state: "closed" });
+});
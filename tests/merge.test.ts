@@ -0,0 +1,100 @@
+import { expect, test } from "bun:test";
+import { parseMemoryFile } from "../src/index.ts";
+import { mergeMemoryFile } from "../src/lib/merge.ts";
+
+const BASE = `---
+type: puzzle
+created: '2026-01-01T00:00:00.000Z'
+title: Ship it
+status: open
+blocks:
+  - ez-aaaaa
+---
+Line one
+Line two
+Line three
+`;
+
+test("unions blocks and keeps edits from both sides", async () => {
+  const ours = BASE.replace("  - ez-aaaaa", "  - ez-aaaaa\n  - ez-bbbbb").replace(
+    "Line one",
+    "Line one, edited"
+  );
+  const theirs = BASE.replace("  - ez-aaaaa", "  - ez-aaaaa\n  - ez-ccccc").replace(
+    "Line three",
+    "Line three, edited"
+  );
+
+  const result = await mergeMemoryFile(BASE, ours, theirs);
+  expect(result.conflict).toBe(false);
+  const entry = parseMemoryFile("ez-xxxxx", result.text);
+  expect(entry.blocks).toEqual(["ez-aaaaa", "ez-bbbbb", "ez-ccccc"]);
+  expect(entry.content).toBe("Line one, edited\nLine two\nLine three, edited");
+});
+
+test("drops blocks removed on either side", async () => {
+  const ours = BASE.replace("blocks:\n  - ez-aaaaa\n", "");
+  const theirs = BASE.replace("  - ez-aaaaa", "  - ez-aaaaa\n  - ez-ccccc");
+
+  const result = await mergeMemoryFile(BASE, ours, theirs);
+  expect(parseMemoryFile("ez-xxxxx", result.text).blocks).toEqual(["ez-ccccc"]);
+});
+
+test("closing on one side and editing the description on the other merges cleanly", async () => {
+  const ours = BASE.replace("status: open", "status: closed\nclosedAt: '2026-02-01T00:00:00.000Z'");
+  const theirs = BASE.replace("Line two", "Line two, clarified");
+
+  const result = await mergeMemoryFile(BASE, ours, theirs);
+  expect(result.conflict).toBe(false);
+  const entry = parseMemoryFile("ez-xxxxx", result.text);
+  expect(entry.status).toBe("closed");
+  expect(entry.closedAt).toBe("2026-02-01T00:00:00.000Z");
+  expect(entry.content).toContain("Line two, clarified");
+});
+
+test("keeps the later close when both sides closed", async () => {
+  const close = (at: string) => BASE.replace("status: open", `status: closed\nclosedAt: '${at}'`);
+
+  const result = await mergeMemoryFile(
+    BASE,
+    close("2026-02-01T00:00:00.000Z"),
+    close("2026-03-01T00:00:00.000Z")
+  );
+  expect(result.conflict).toBe(false);
+  expect(parseMemoryFile("ez-xxxxx", result.text).closedAt).toBe("2026-03-01T00:00:00.000Z");
+});
+
+test("leaves markers only where both sides changed the same thing", async () => {
+  const ours = BASE.replace("Ship it", "Ship it now").replace("Line two", "Line two, ours");
+  const theirs = BASE.replace("Ship it", "Ship it later").replace("Line two", "Line two, theirs");
+
+  const result = await mergeMemoryFile(BASE, ours, theirs);
+  expect(result.conflict).toBe(true);
+  expect(result.text).toContain("<<<<<<< ours\ntitle: Ship it now\n=======\ntitle: Ship it later\n>>>>>>> theirs");
+  expect(result.text).toContain("<<<<<<< ours\nLine two, ours\n=======\nLine two, theirs\n>>>>>>> theirs");
+  expect(result.text).toContain("Line one\n");
+});
+
+test("a close on one side wins over a claim on the other", async () => {
+  const claimed = BASE.replace(
+    "status: open",
+    [
+      "status: in-progress",
+      "claimedBy: agent-1",
+      "claimedAt: '2026-02-01T00:00:00.000Z'",
+      "leaseUntil: '2026-02-01T04:00:00.000Z'",
+    ].join("\n")
+  );
+  const closed = BASE.replace("status: open", "status: closed\nclosedAt: '2026-02-01T01:00:00.000Z'");
+
+  for (const [ours, theirs] of [
+    [claimed, closed],
+    [closed, claimed],
+  ] as const) {
+    const result = await mergeMemoryFile(BASE, ours, theirs);
+    expect(result.conflict).toBe(false);
+    const entry = parseMemoryFile("ez-xxxxx", result.text);
+    expect(entry.status).toBe("closed");
+    expect(entry.claimedBy).toBeUndefined();
+  }
+});
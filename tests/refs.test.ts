@@ -0,0 +1,34 @@
+import { expect, test } from "bun:test";
+import { normalizeRefs, parseRef, refsAbout, resolveRef } from "../src/lib/refs.ts";
+
+test("parses paths with line ranges and symbols", () => {
+  expect(parseRef("src/app.ts")).toEqual({ path: "src/app.ts", symbol: undefined });
+  expect(parseRef("./src//app.ts:10-20")).toEqual({
+    path: "src/app.ts",
+    startLine: 10,
+    endLine: 20,
+    symbol: undefined,
+  });
+  expect(parseRef("src/app.ts#parseArgs")).toMatchObject({ symbol: "parseArgs" });
+  expect(() => parseRef("../outside.ts")).toThrow("inside the project");
+  expect(() => parseRef("/etc/passwd")).toThrow("inside the project");
+  expect(() => parseRef("src/app.ts:20-10")).toThrow("ends before it starts");
+
+  expect(normalizeRefs(["./a.ts:3", "a.ts:3", "lib/"])).toEqual(["a.ts:3", "lib"]);
+  expect(normalizeRefs(["../bad", "ok.ts"], true)).toEqual(["ok.ts"]);
+});
+
+test("resolves command line paths against the current directory", () => {
+  expect(resolveRef("/repo", "/repo/src", "app.ts:5")).toBe("src/app.ts:5");
+  expect(resolveRef("/repo", "/repo/src", "../README.md#Usage")).toBe("README.md#Usage");
+  expect(() => resolveRef("/repo", "/repo/src", "../../etc/hosts")).toThrow("outside the project");
+});
+
+test("matches files, directories and the directories containing them", () => {
+  const entry = { refs: ["src/lib/memory.ts:10-20", "src/cli", "docs/guide.md"] };
+  expect(refsAbout(entry, "src/lib/memory.ts")).toEqual(["src/lib/memory.ts:10-20"]);
+  expect(refsAbout(entry, "src")).toEqual(["src/lib/memory.ts:10-20", "src/cli"]);
+  expect(refsAbout(entry, "src/cli/commands.ts")).toEqual(["src/cli"]);
+  expect(refsAbout(entry, "src/lib/memory")).toEqual([]);
+  expect(refsAbout(entry, "")).toHaveLength(3);
+});
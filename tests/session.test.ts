@@ -0,0 +1,72 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore } from "../src/index.ts";
+import { getLastSession, renderSessionSummary } from "../src/lib/session.ts";
+
+let store: EzerStore;
+let warnings: string[];
+
+beforeEach(async () => {
+  const dir = await mkdtemp(join(tmpdir(), "ezer-session-"));
+  warnings = [];
+  store = new EzerStore({
+    root: dir,
+    userConfigFile: null,
+    onWarning: (message) => warnings.push(message),
+  });
+  await store.init("ez");
+});
+
+test("records what was created, closed and left in progress during a session", async () => {
+  const before = await store.createPuzzle("Before the session");
+  const session = await store.startSession({ branch: "main", head: "0123456789abcdef" });
+  const note = await store.createNote("Found the config loader");
+  const claimed = await store.createPuzzle("Refactor loader");
+  await store.updatePuzzleStatus(before.id, "closed");
+  await store.startPuzzle(claimed.id, { by: "alice" });
+  await store.endSession({ head: "fedcba9876543210", summary: "Looked at config loading" });
+
+  const ended = await getLastSession(store);
+  expect(ended).toMatchObject({
+    id: session.id,
+    branch: "main",
+    head: "0123456789abcdef",
+    endHead: "fedcba9876543210",
+    content: "Looked at config loading",
+    createdEntries: [note.id, claimed.id],
+    closedPuzzles: [before.id],
+    inProgress: [claimed.id],
+  });
+
+  const summary = await renderSessionSummary(store, ended!);
+  expect(summary).toStartWith(`Session ${session.id} on main (0123456): `);
+  expect(summary).toContain(
+    [
+      "Looked at config loading",
+      "Closed:",
+      `- ${before.id}: Before the session`,
+      "Created:",
+      `- ${note.id}: Found the config loader (note)`,
+      `- ${claimed.id}: Refactor loader`,
+      "Left in progress:",
+      `- ${claimed.id}: Refactor loader (by alice)`,
+    ].join("\n")
+  );
+
+  // Work after the session ended is not attributed to it
+  await store.createNote("Later");
+  expect((await getLastSession(store))?.createdEntries).toEqual([note.id, claimed.id]);
+});
+
+test("ends a forgotten session when a new one starts", async () => {
+  const first = await store.startSession();
+  const second = await store.startSession();
+  expect(warnings).toEqual([`Warning: Ending session ${first.id}, which was never ended`]);
+  expect((await store.getActiveSession())?.id).toBe(second.id);
+  expect((await getLastSession(store))?.id).toBe(first.id);
+
+  await store.endSession();
+  await expect(store.endSession()).rejects.toThrow("No active session");
+});
@@ -0,0 +1,102 @@
+import { mkdir, mkdtemp, readdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore, getPuzzleStates, parseMemoryFile } from "../src/index.ts";
+
+let root: string;
+let store: EzerStore;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "ezer-store-"));
+  store = new EzerStore({ root, userConfigFile: null });
+});
+
+test("stores entries under the given root, not the working directory", async () => {
+  const note = await store.createNote("library note");
+
+  const files = await readdir(join(root, ".ezer", "memory"));
+  expect(files).toEqual([`${note.id}.md`]);
+  const config = await readFile(join(root, ".ezer", "config.yaml"), "utf-8");
+  expect(config).toContain("prefix:");
+
+  const notes = await store.listMemoryEntries("note");
+  expect(notes.map((entry) => entry.id)).toEqual([note.id]);
+  expect(notes[0]?.content).toBe("library note");
+});
+
+test("links puzzles and computes their state in-process", async () => {
+  const main = await store.createPuzzle("Main");
+  const setup = await store.createPuzzle("Setup", "details");
+  await store.updatePuzzleBlocks(setup.id, main.id, "append");
+
+  const file = await readFile(join(store.memoryDir, `${setup.id}.md`), "utf-8");
+  expect(parseMemoryFile(setup.id, file).blocks).toEqual([main.id]);
+
+  const states = getPuzzleStates(await store.listMemoryEntries("puzzle"));
+  expect(states.get(main.id)).toEqual({ state: "blocked", blockedBy: [setup.id], unblocks: 0 });
+  expect(states.get(setup.id)).toEqual({ state: "ready", blockedBy: [], unblocks: 1 });
+
+  await store.updatePuzzleStatus(setup.id, "closed");
+  const after = getPuzzleStates(await store.listMemoryEntries("puzzle"));
+  expect(after.get(main.id)?.state).toBe("ready");
+});
+
+test("reports missing entries and soft-limit warnings through the store", async () => {
+  await expect(store.updateNote("zz-aaaaa", "x")).rejects.toMatchObject({
+    code: "NOT_FOUND",
+  });
+
+  const warnings: string[] = [];
+  const quiet = new EzerStore({
+    root,
+    userConfigFile: null,
+    onWarning: (message) => warnings.push(message),
+  });
+  await quiet.createNote("x".repeat(30001));
+  expect(warnings[0]).toContain("exceeds soft limit");
+});
+
+async function writeNote(id: string, content: string): Promise<void> {
+  await mkdir(store.memoryDir, { recursive: true });
+  const text = `---\ntype: note\ncreated: '2026-01-01T00:00:00.000Z'\n---\n${content}\n`;
+  await writeFile(join(store.memoryDir, `${id}.md`), text);
+}
+
+test("resolves abbreviated IDs like git resolves commits", async () => {
+  await writeNote("ez-abcde", "first");
+  await writeNote("ez-abxyz", "second");
+  await writeNote("ot-qrstu", "other prefix");
+
+  expect(await store.resolveId("ez-abcde")).toBe("ez-abcde");
+  expect(await store.resolveId("ez-abc")).toBe("ez-abcde");
+  expect(await store.resolveId("ABX")).toBe("ez-abxyz");
+  expect(await store.resolveId("q")).toBe("ot-qrstu");
+  expect(await store.resolveId("ez-zzzzz")).toBe("ez-zzzzz");
+
+  const ambiguous = store.resolveId("ab");
+  await expect(ambiguous).rejects.toMatchObject({ code: "AMBIGUOUS" });
+  await expect(ambiguous).rejects.toThrow(
+    "ab matches 2 entries:\n  ez-abcde [note]: first\n  ez-abxyz [note]: second"
+  );
+  await expect(store.resolveId("ez-q")).rejects.toMatchObject({ code: "NOT_FOUND" });
+  await expect(store.resolveId("../x")).rejects.toMatchObject({ code: "INVALID_ID" });
+});
+
+test("generates unused IDs and grows them as the ID space fills", async () => {
+  await store.setSetting("ids.randomLength", 4);
+  await store.setSetting("prefix", "ez");
+  // 32^4 / 1024 = 1024 existing IDs fill the 4-character space.
+  for (let i = 0; i < 1025; i++) {
+    await writeNote(`ez-${i.toString(32).padStart(4, "0")}`, "filler");
+  }
+
+  const note = await store.createNote("new");
+  expect(note.id).toMatch(/^ez-[a-z2-7]{5}$/);
+
+  const ids = new Set<string>();
+  for (let i = 0; i < 20; i++) {
+    ids.add(await store.generateId());
+  }
+  expect(ids.size).toBe(20);
+});
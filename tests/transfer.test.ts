@@ -0,0 +1,128 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore, type MemoryEntry } from "../src/index.ts";
+import { exportStore, importEntries, parseExport, type ExportFormat } from "../src/lib/transfer.ts";
+
+let source: EzerStore;
+let target: EzerStore;
+
+async function createStore(prefix: string): Promise<EzerStore> {
+  const store = new EzerStore({
+    root: await mkdtemp(join(tmpdir(), "ezer-transfer-")),
+    userConfigFile: null,
+  });
+  await store.init(prefix);
+  return store;
+}
+
+beforeEach(async () => {
+  source = await createStore("src");
+  target = await createStore("dst");
+  const main = await source.createPuzzle("Ship it", "Acceptance: deployed");
+  const tests = await source.createPuzzle("Add tests", "", undefined, { tags: ["qa"] });
+  await source.updatePuzzleBlocks(tests.id, main.id, "set");
+  await source.createNote("---\nA note that looks like\nfrontmatter\n---");
+});
+
+test.each(["json", "jsonl", "markdown"] as ExportFormat[])(
+  "%s exports round-trip with computed state",
+  async (format) => {
+    const text = await exportStore(source, format);
+    if (format !== "markdown") {
+      expect(text).toContain('"state":');
+    } else {
+      expect(text).toContain("state=blocked");
+    }
+    const entries = await source.listMemoryEntries();
+    expect(parseExport(text)).toEqual(
+      expect.arrayContaining(entries.map((entry) => expect.objectContaining(entry)))
+    );
+    expect(parseExport(text)).toHaveLength(entries.length);
+  }
+);
+
+test("remaps IDs to the local prefix and rewrites blocks", async () => {
+  const entries = parseExport(await exportStore(source, "json"));
+
+  const dryRun = await importEntries(target, entries, { remap: true, dryRun: true });
+  expect(dryRun.created).toHaveLength(3);
+  expect(await target.listMemoryEntries()).toEqual([]);
+
+  const result = await importEntries(target, entries, { remap: true });
+  const ids = new Map(result.created.map(({ entry, from }) => [from, entry.id]));
+  for (const id of ids.values()) {
+    expect(id).toStartWith("dst-");
+  }
+  const tests = result.created.find(({ entry }) => entry.title === "Add tests")!;
+  const main = result.created.find(({ entry }) => entry.title === "Ship it")!;
+  expect((await target.readMemoryEntry(tests.entry.id)).blocks).toEqual([main.entry.id]);
+});
+
+test("skips or merges duplicates, even after remapping", async () => {
+  const entries = parseExport(await exportStore(source, "jsonl"));
+  await importEntries(target, entries, { remap: true });
+
+  const again = await importEntries(target, entries, { remap: true });
+  expect(again.created).toEqual([]);
+  expect(again.skipped).toHaveLength(3);
+
+  const tests = entries.find((entry) => entry.title === "Add tests")!;
+  tests.tags = ["qa", "ci"];
+  const merged = await importEntries(target, entries, { remap: true, duplicates: "merge" });
+  expect(merged.merged).toHaveLength(1);
+  expect(merged.merged[0]?.tags).toEqual(["qa", "ci"]);
+  expect(merged.merged[0]?.id).toStartWith("dst-");
+  expect(await target.listMemoryEntries()).toHaveLength(3);
+});
+
+test("imports as one locked operation, so parallel imports do not duplicate entries", async () => {
+  const entries = parseExport(await exportStore(source, "jsonl"));
+  await Promise.all([
+    importEntries(target, entries, { remap: true }),
+    importEntries(target, entries, { remap: true }),
+  ]);
+  expect(await target.listMemoryEntries()).toHaveLength(3);
+  expect((await target.listJournal()).map((operation) => operation.op)).toEqual([
+    "importEntries",
+  ]);
+});
+
+test("refuses merged blocks that would create a cycle", async () => {
+  await importEntries(target, parseExport(await exportStore(source, "json")));
+  const [tests, main] = (await source.listMemoryEntries("puzzle")).sort((a, b) =>
+    a.title!.localeCompare(b.title!)
+  );
+  await source.updatePuzzleBlocks(tests!.id, main!.id, "remove");
+  await source.updatePuzzleBlocks(main!.id, tests!.id, "set");
+
+  const entries = parseExport(await exportStore(source, "json"));
+  await expect(importEntries(target, entries, { duplicates: "merge" })).rejects.toMatchObject({
+    code: "CYCLE",
+  });
+  expect((await target.readMemoryEntry(main!.id)).blocks).toBeUndefined();
+});
+
+test("rejects files that are not exports", () => {
+  expect(() => parseExport("just some notes", "notes.txt")).toThrow(
+    "notes.txt: not an ezer export"
+  );
+  expect(() => parseExport('{"id":"bad id","type":"note"}')).toThrow('invalid id "bad id"');
+
+  const entry = { id: "ez-abcde", type: "puzzle", created: "2026-01-01T00:00:00Z", content: "" };
+  const parse = (fields: object) => () => parseExport(JSON.stringify({ ...entry, ...fields }));
+  expect(parse({})()).toEqual([entry as MemoryEntry]);
+  expect(parse({ blocks: "ez-bcdef" })).toThrow("ez-abcde has an invalid blocks");
+  expect(parse({ blocks: ["not an id"] })).toThrow("(expected a list of IDs)");
+  expect(parse({ created: 12 })).toThrow("ez-abcde has an invalid created 12");
+  expect(parse({ status: "done" })).toThrow("ez-abcde has an invalid status");
+  expect(parse({ tags: ["two words"] })).toThrow('Invalid tag "two words"');
+  let error: unknown;
+  try {
+    parse({ title: ["x"] })();
+  } catch (caught) {
+    error = caught;
+  }
+  expect(error).toMatchObject({ code: "INVALID_FILE" });
+});
@@ -0,0 +1,126 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { expect, test, beforeEach } from "bun:test";
+import { EzerStore } from "../src/index.ts";
+import { createTui, loadTuiView, parseKeys, type Tui } from "../src/lib/tui.ts";
+
+let store: EzerStore;
+let edits: string[];
+let editResult: string | null;
+let tui: Tui;
+
+beforeEach(async () => {
+  const root = await mkdtemp(join(tmpdir(), "ezer-tui-"));
+  store = new EzerStore({ root, userConfigFile: null, onWarning: () => {} });
+  edits = [];
+  editResult = null;
+  tui = createTui(store, {
+    edit: async (text) => {
+      edits.push(text);
+      return editResult;
+    },
+  });
+});
+
+function screen(width = 100, height = 12): string {
+  return tui
+    .render(width, height)
+    .map((line) => line.replace(/\x1b\[[0-9;]*m/g, ""))
+    .join("\n");
+}
+
+async function press(...keys: string[]): Promise<void> {
+  for (const key of keys) {
+    expect(await tui.press(key)).toBe(true);
+  }
+}
+
+test("parses keys and escape sequences from raw terminal input", () => {
+  expect(parseKeys("j\x1b[A\x1b[B\tq")).toEqual(["j", "up", "down", "tab", "q"]);
+  expect(parseKeys("\x1b[Z\x1b\r\x7f\x03")).toEqual([
+    "shift-tab",
+    "escape",
+    "enter",
+    "backspace",
+    "ctrl-c",
+  ]);
+  expect(parseKeys("\x1b[5~x")).toEqual(["x"]);
+});
+
+test("sorts entries into note and puzzle panes", async () => {
+  const note = await store.createNote("A note");
+  const main = await store.createPuzzle("Main");
+  const blocker = await store.createPuzzle("Blocker");
+  const done = await store.createPuzzle("Done");
+  await store.updatePuzzleBlocks(blocker.id, main.id, "append");
+  await store.updatePuzzleStatus(done.id, "closed");
+
+  const view = await loadTuiView(store);
+  expect(view.panes.notes.map((entry) => entry.id)).toEqual([note.id]);
+  expect(view.panes.ready.map((entry) => entry.id)).toEqual([blocker.id]);
+  expect(view.panes.blocked.map((entry) => entry.id)).toEqual([main.id]);
+  expect(view.panes.closed.map((entry) => entry.id)).toEqual([done.id]);
+
+  await tui.load();
+  const text = screen();
+  expect(text).toContain("1 Notes (1)   2 Ready (1)   3 Blocked (1)   4 Closed (1)");
+  expect(text).toContain(`${blocker.id} Blocker`);
+  expect(text).toContain(`${main.id}: Main [blocked]`);
+  for (const line of tui.render(60, 8)) {
+    expect(line.replace(/\x1b\[[0-9;]*m/g, "").length).toBe(60);
+  }
+});
+
+test("closes, reopens and links puzzles through the store", async () => {
+  const main = await store.createPuzzle("Main");
+  const setup = await store.createPuzzle("Setup");
+  await tui.load();
+
+  await press("j");
+  expect(screen()).toContain(`${setup.id}: Setup [ready]`);
+  await press("l", ...main.id.slice(main.id.lastIndexOf("-") + 1, -1), "enter");
+  expect((await store.readMemoryEntry(setup.id)).blocks).toEqual([main.id]);
+  expect(screen()).toContain(`${setup.id} now blocks ${main.id}`);
+
+  await press("c");
+  expect((await store.readMemoryEntry(setup.id)).status).toBe("closed");
+  await press("4", "o");
+  expect((await store.readMemoryEntry(setup.id)).status).toBe("open");
+
+  await press("2", "l", ..."zz", "enter");
+  expect(screen()).toContain("No entry matches zz");
+  expect((await store.listJournal()).map((operation) => operation.op)).toEqual([
+    "createPuzzle",
+    "createPuzzle",
+    "updatePuzzleBlocks",
+    "updatePuzzleStatus",
+    "updatePuzzleStatus",
+  ]);
+});
+
+test("edits entries in the editor and deletes them after confirmation", async () => {
+  const puzzle = await store.createPuzzle("Old title", "Old description");
+  const note = await store.createNote("Old note");
+  await tui.load();
+
+  editResult = "New title\n\nNew description\n";
+  await press("e");
+  expect(edits).toEqual(["Old title\n\nOld description\n"]);
+  const updated = await store.readMemoryEntry(puzzle.id);
+  expect([updated.title, updated.content]).toEqual(["New title", "New description"]);
+
+  editResult = "New note\n";
+  await press("1", "e", "c");
+  expect((await store.readMemoryEntry(note.id)).content).toBe("New note");
+  expect(screen()).toContain(`${note.id} is not a puzzle`);
+
+  await press("d", "n");
+  expect(screen()).toContain("Delete cancelled");
+  await press("d");
+  expect(screen()).toContain(`Delete ${note.id}? (y/n)`);
+  await press("y");
+  await expect(store.readMemoryEntry(note.id)).rejects.toMatchObject({ code: "NOT_FOUND" });
+  expect(screen()).toContain("(empty)");
+  expect(await tui.press("q")).toBe(false);
+});